@@ -0,0 +1,169 @@
+#!/usr/bin/env bun
+/**
+ * CLI wrapper for inspecting and maintaining the documentation cache.
+ * This is a thin wrapper around the CacheManager inspection API.
+ */
+
+import {
+  CacheManager,
+  CACHE_ARTIFACTS,
+  type ArtifactStatus,
+  type CacheArtifact,
+} from "../../../src/services/cache-manager.ts";
+import { LockHeldError, withUpdateLock } from "../../../src/services/file-lock.ts";
+import { dirname, join } from "node:path";
+
+const skillDir = dirname(dirname(import.meta.path));
+const cacheDir = join(skillDir, "cache");
+const referencesDir = join(skillDir, "references");
+
+const [command, ...rest] = process.argv.slice(2);
+
+function printUsage() {
+  console.log("Usage: bun run skills/claude-code-reference/scripts/cache.ts <command>");
+  console.log("");
+  console.log("Commands:");
+  console.log("  status            Age, size, version, hash and TTL state of each artifact");
+  console.log("  verify            Check cache files against their schemas and pages' hashes");
+  console.log(`  clear [artifact]  Delete one artifact (${CACHE_ARTIFACTS.join(", ")}) or all`);
+  console.log("  gc                Prune old snapshots and orphaned page files");
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatAge(date: Date | null): string {
+  if (!date) {
+    return "never";
+  }
+
+  const hours = (Date.now() - date.getTime()) / (1000 * 60 * 60);
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m ago`;
+  }
+  return hours < 48 ? `${Math.round(hours)}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+function formatStatus(status: ArtifactStatus): string {
+  if (!status.exists) {
+    return `  ✗ ${status.name}: missing`;
+  }
+
+  const state = status.freshness
+    ? `${status.freshness.expired ? "expired" : "fresh"} (TTL ${status.freshness.ttlHours}h)`
+    : "no TTL";
+  const age = formatAge(status.freshness?.checkedAt ?? status.updatedAt);
+  const version = status.version ? `v${status.version}` : "-";
+  const icon = status.freshness?.expired ? "⚠" : "✓";
+
+  return (
+    `  ${icon} ${status.name}: ${formatBytes(status.bytes)}, ` +
+    `${version}, ${status.hash!.slice(0, 12)}, ${age}, ${state}`
+  );
+}
+
+async function status(cacheManager: CacheManager) {
+  const statuses = await cacheManager.getStatus();
+
+  for (const artifact of [...CACHE_ARTIFACTS, "references"] as const) {
+    const group = statuses.filter((status) => status.artifact === artifact);
+    if (group.length === 0) {
+      continue;
+    }
+
+    const bytes = group.reduce((sum, status) => sum + status.bytes, 0);
+    console.log(`\n${artifact} (${group.length} files, ${formatBytes(bytes)})`);
+    for (const status of group) {
+      console.log(formatStatus(status));
+    }
+  }
+}
+
+async function verify(cacheManager: CacheManager) {
+  const issues = await cacheManager.verify();
+
+  if (issues.length === 0) {
+    console.log("✓ Cache is consistent");
+    return;
+  }
+
+  for (const issue of issues) {
+    console.error(`  ✗ ${issue.name}: ${issue.message}`);
+  }
+  console.error(`\n${issues.length} issues found; run update-docs.ts --force to rebuild`);
+  process.exitCode = 1;
+}
+
+async function clear(cacheManager: CacheManager, artifact: CacheArtifact | undefined) {
+  const removed = await cacheManager.clear(artifact);
+  for (const path of removed) {
+    console.log(`  ✓ Removed ${path}`);
+  }
+  console.log(removed.length > 0 ? "\n✓ Cache cleared" : "Nothing to clear");
+}
+
+async function gc(cacheManager: CacheManager) {
+  const result = await cacheManager.gc();
+
+  for (const snapshot of result.snapshots) {
+    console.log(`  ✓ Pruned snapshot ${snapshot.kind}/${snapshot.id}`);
+  }
+  for (const slug of result.pages) {
+    console.log(`  ✓ Removed orphaned page ${slug}`);
+  }
+  console.log(
+    `\n✓ Removed ${result.snapshots.length} snapshots and ${result.pages.length} orphaned pages`
+  );
+}
+
+/**
+ * Commands that modify the cache hold the update lock so they never race
+ * an update-docs.ts run.
+ */
+async function withLock(task: () => Promise<void>): Promise<void> {
+  try {
+    await withUpdateLock(cacheDir, task, { timeoutMs: 0 });
+  } catch (error) {
+    if (!(error instanceof LockHeldError)) {
+      throw error;
+    }
+    console.error(`An update is running; try again when it finishes. ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const cacheManager = new CacheManager(cacheDir, referencesDir);
+
+  switch (command) {
+    case "status":
+      await status(cacheManager);
+      break;
+    case "verify":
+      await verify(cacheManager);
+      break;
+    case "clear": {
+      // Checked before taking the lock, so a typo never leaves it behind
+      const artifact = rest[0];
+      if (artifact && !CACHE_ARTIFACTS.includes(artifact as CacheArtifact)) {
+        console.error(`Unknown artifact: ${artifact}`);
+        console.error(`Valid artifacts: ${CACHE_ARTIFACTS.join(", ")}`);
+        process.exit(1);
+      }
+      await withLock(() => clear(cacheManager, artifact as CacheArtifact | undefined));
+      break;
+    }
+    case "gc":
+      await withLock(() => gc(cacheManager));
+      break;
+    default:
+      printUsage();
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
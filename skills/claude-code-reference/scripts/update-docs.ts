@@ -4,15 +4,45 @@
  * This is a thin wrapper that orchestrates the services.
  */
 
-import { DocsFetcher } from "../../../src/services/docs-fetcher.ts";
-import { DocsParser } from "../../../src/services/docs-parser.ts";
-import { CacheManager } from "../../../src/services/cache-manager.ts";
+import {
+  DocsFetcher,
+  resolveGitHubToken,
+  type SourceFetchReport,
+} from "../../../src/services/docs-fetcher.ts";
+import {
+  DocsParser,
+  type DocPage,
+  type ParsedContent,
+} from "../../../src/services/docs-parser.ts";
+import {
+  DocSourceRegistry,
+  createDocSource,
+  DEFAULT_DOC_SOURCE_ID,
+  parseDocSourceConfigs,
+} from "../../../src/services/doc-sources.ts";
+import { ChangelogParser } from "../../../src/services/changelog-parser.ts";
+import { CacheManager, type QuarantineReport } from "../../../src/services/cache-manager.ts";
 import { ReferenceManager } from "../../../src/services/reference-manager.ts";
+import { HttpValidatorStore } from "../../../src/services/http-validator-store.ts";
+import {
+  FetchTransport,
+  RecordingTransport,
+  ReplayTransport,
+  type HttpTransport,
+} from "../../../src/services/http-transport.ts";
+import { MirrorTransport, mirrorRoutes } from "../../../src/services/mirror-transport.ts";
+import { PAGES_DIR, PageCache } from "../../../src/services/page-cache.ts";
+import { DocsCrawler } from "../../../src/services/docs-crawler.ts";
+import { CatalogExtractor } from "../../../src/services/entity-catalog.ts";
+import { CacheIncompatibleError } from "../../../src/services/cache-migrations.ts";
+import type { ArtifactFreshness } from "../../../src/services/freshness.ts";
+import { LockHeldError, withUpdateLock } from "../../../src/services/file-lock.ts";
 import {
   ReferenceGeneratorOrchestrator,
   ALL_CATEGORIES,
   type GeneratorCategory,
 } from "../../../src/services/reference-generators/index.ts";
+import { readFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 
 // Determine plugin root directory (3 levels up: scripts -> claude-code-reference -> skills -> root)
@@ -26,6 +56,9 @@ const args = process.argv.slice(2);
 const forceUpdate = args.includes("--force") || args.includes("-f");
 const skipReleases = args.includes("--skip-releases");
 const skipDocs = args.includes("--skip-docs");
+const crawlPages = args.includes("--crawl");
+const fromCache = args.includes("--from-cache");
+const noWait = args.includes("--no-wait");
 
 // Parse --regenerate-refs argument
 const regenerateRefsArg = args.find((a) => a.startsWith("--regenerate-refs"));
@@ -34,52 +67,290 @@ const regenerateCategory = regenerateRefsArg?.includes("=")
   ? (regenerateRefsArg.split("=")[1] as GeneratorCategory)
   : null;
 
+// Parse --record=<dir> / --replay=<dir> fixture arguments
+const recordDir = args.find((a) => a.startsWith("--record="))?.split("=")[1];
+const replayDir = args.find((a) => a.startsWith("--replay="))?.split("=")[1];
+
+// Offline mirror: --mirror=<dir|file://url> or PHOENIXLAB_DOCS_MIRROR
+const mirrorArg = args.find((a) => a.startsWith("--mirror="));
+const mirrorLocation = mirrorArg
+  ? mirrorArg.slice("--mirror=".length)
+  : process.env.PHOENIXLAB_DOCS_MIRROR;
+
+// GitHub Enterprise: --github-api-url=<url> or GITHUB_API_URL
+const githubApiArg = args.find((a) => a.startsWith("--github-api-url="));
+const githubApiUrl = githubApiArg
+  ? githubApiArg.slice("--github-api-url=".length)
+  : process.env.GITHUB_API_URL;
+
+/**
+ * Reads `--<name>=<value>` as a non-negative number, exiting on anything
+ * else so a typo never silently changes behaviour.
+ */
+function nonNegativeArg(name: string, integer = false): number | undefined {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  if (arg === undefined) {
+    return undefined;
+  }
+
+  const raw = arg.slice(`--${name}=`.length);
+  const value = Number(raw);
+  const valid =
+    raw.trim() !== "" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    (!integer || Number.isInteger(value));
+
+  if (!valid) {
+    const expected = integer ? "a non-negative integer" : "a non-negative number";
+    console.error(`Invalid --${name}=${raw}: expected ${expected}`);
+    process.exit(1);
+  }
+
+  return value;
+}
+
+// Per-request timeout in seconds: --timeout=<seconds> (0 disables)
+const timeoutSeconds = nonNegativeArg("timeout") ?? 30;
+const timeoutMs = timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined;
+
+// Snapshots of docs.json and releases.json to keep: --keep-snapshots=<n> (0 deletes them all)
+const keepSnapshots = nonNegativeArg("keep-snapshots", true);
+
+// Newest releases kept in the cached history: --max-releases=<n> (unbounded by default)
+const maxReleases = nonNegativeArg("max-releases", true);
+
+// Additional documentation sources: --sources=<file.json> (array of { id, name?, url })
+const sourcesFile = args.find((a) => a.startsWith("--sources="))?.slice("--sources=".length);
+
+async function createSourceRegistry(): Promise<DocSourceRegistry> {
+  const registry = new DocSourceRegistry();
+
+  if (sourcesFile) {
+    const configs = parseDocSourceConfigs(JSON.parse(await readFile(sourcesFile, "utf-8")));
+    for (const config of configs) {
+      registry.register(createDocSource(config));
+    }
+  }
+
+  return registry;
+}
+
+function logSourceReport(source: SourceFetchReport): void {
+  const timing = `${source.durationMs}ms`;
+
+  if (source.status === "failed") {
+    console.error(`  ✗ ${source.source}: ${source.error} (after ${timing})`);
+  } else if (source.status === "unchanged") {
+    console.log(`  ✓ ${source.source}: unchanged since last fetch (304) in ${timing}`);
+  } else {
+    const kb = (source.bytes / 1024).toFixed(1);
+    console.log(`  ✓ ${source.source}: HTTP ${source.httpStatus}, ${kb} KB in ${timing}`);
+  }
+}
+
+/** Corrupt cache files are renamed aside and read as a cache miss. */
+function reportQuarantine(report: QuarantineReport): void {
+  console.warn(`⚠ ${report.error.message}; moved to ${report.quarantinedPath}`);
+}
+
+const storeOptions = { onQuarantine: reportQuarantine };
+
+function createTransport(): HttpTransport {
+  const modes = [
+    recordDir && "--record",
+    replayDir && "--replay",
+    mirrorLocation && (mirrorArg ? "--mirror" : "PHOENIXLAB_DOCS_MIRROR"),
+  ].filter(Boolean);
+  if (modes.length > 1) {
+    console.error(`Cannot combine ${modes.join(" and ")}; choose one source of responses`);
+    process.exit(1);
+  }
+
+  if (replayDir) {
+    return new ReplayTransport(replayDir);
+  }
+  if (mirrorLocation) {
+    return new MirrorTransport(mirrorLocation, mirrorRoutes(githubApiUrl));
+  }
+  if (recordDir) {
+    return new RecordingTransport(recordDir);
+  }
+  return new FetchTransport();
+}
+
+const transport = createTransport();
+
 async function main() {
-  const fetcher = new DocsFetcher();
+  // Reject a malformed --sources file before anything is fetched
+  let registry: DocSourceRegistry;
+  try {
+    registry = await createSourceRegistry();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`✗ Invalid sources file ${sourcesFile}: ${message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const fetcher = new DocsFetcher({
+    validatorStore: new HttpValidatorStore(cacheDir, storeOptions),
+    transport,
+    githubToken: resolveGitHubToken(),
+    githubApiUrl,
+    timeoutMs,
+  });
   const parser = new DocsParser();
-  const cacheManager = new CacheManager(cacheDir, referencesDir);
+  const cacheManager = new CacheManager(cacheDir, referencesDir, {
+    retention: keepSnapshots === undefined ? undefined : { maxCount: keepSnapshots },
+    maxReleases,
+    onQuarantine: reportQuarantine,
+  });
+
+  // Each artifact is refreshed once its own time to live has run out; caches
+  // from an unsupported version are refetched in full rather than read
+  const { refresh, fetchDocs, fetchReleases, conditional, incompatible, freshness } =
+    await cacheManager.planUpdate({ force: forceUpdate, skipDocs, skipReleases });
+  for (const error of incompatible) {
+    console.warn(`⚠ ${error.message}; refetching`);
+  }
 
-  // Check if cache is still valid (unless forced)
-  if (!forceUpdate && (await cacheManager.isCacheValid())) {
-    const metadata = await cacheManager.getCacheMetadata();
-    console.log(`Cache is still valid (cached at ${metadata?.cachedAt})`);
+  if (!fetchDocs && !fetchReleases && !crawlPages) {
+    console.log(
+      `Cache is still fresh (docs checked at ${freshness.docs.checkedAt?.toISOString()}, ` +
+        `releases checked at ${freshness.releases.checkedAt?.toISOString()})`
+    );
     console.log("Use --force to update anyway");
+    logExpiredReferences(freshness.references);
     return;
   }
 
   console.log("Updating Claude Code documentation...\n");
+  if (mirrorLocation) {
+    console.log(`Using documentation mirror: ${mirrorLocation}\n`);
+  }
 
-  let parsedDocs = null;
+  let parsedDocs: ParsedContent | null = null;
   let parsedReleases: Awaited<ReturnType<DocsParser["parseReleases"]>> = [];
 
-  // Fetch and parse official docs
-  if (!skipDocs) {
-    try {
-      console.log("Fetching official docs from code.claude.com/docs/llms.txt...");
-      const rawDocs = await fetcher.fetchOfficialDocs();
-      parsedDocs = parser.parseDocs(rawDocs);
+  // Fetch official docs and releases together; one failing does not discard the other
+  if (fetchDocs || fetchReleases) {
+    const targets = [fetchDocs && "official docs", fetchReleases && "GitHub releases"];
+    console.log(`Fetching ${targets.filter(Boolean).join(" and ")}...`);
+    const report = await fetcher.fetchAll({
+      releaseLimit: 10,
+      docs: fetchDocs,
+      releases: fetchReleases,
+      conditional,
+    });
+
+    for (const source of report.sources) {
+      logSourceReport(source);
+      if (source.status === "unchanged") {
+        await cacheManager.markChecked(source.source === "releases" ? "releases" : "docs");
+      }
+    }
+
+    const failed = report.sources.filter((source) => source.status === "failed");
+    if (failed.length > 0 && failed.length < report.sources.length) {
+      console.log(`  ⚠ Partial update: ${failed.map((source) => source.source).join(", ")} failed`);
+    }
+
+    if (report.docs) {
+      parsedDocs = parser.parseDocs(report.docs);
       await cacheManager.writeDocsCache(parsedDocs);
-      console.log(`  ✓ Fetched: ${parsedDocs.title}`);
+      await fetcher.commitValidators(report.docs.url);
+      console.log(`  ✓ Parsed: ${parsedDocs.title}`);
       console.log(`  ✓ Found ${parsedDocs.sections.length} sections`);
-    } catch (error) {
-      console.error(`  ✗ Failed to fetch official docs: ${error}`);
     }
-  }
 
-  // Fetch and parse GitHub releases
-  if (!skipReleases) {
-    try {
-      console.log("\nFetching releases from GitHub...");
-      const releases = await fetcher.fetchGitHubReleases(10);
-      parsedReleases = parser.parseReleases(releases);
-      await cacheManager.writeReleasesCache(parsedReleases);
-      console.log(`  ✓ Fetched ${parsedReleases.length} releases`);
+    if (report.releases) {
+      parsedReleases = parser.parseReleases(report.releases);
+      console.log(`  ✓ Parsed ${parsedReleases.length} releases`);
+
+      // Release bodies are often thin; complete them from the CHANGELOG
+      try {
+        const changelogParser = new ChangelogParser();
+        const changelog = await fetcher.fetchChangelog();
+        const entries = changelogParser.parse(changelog.content);
+        parsedReleases = changelogParser.mergeWithReleases(parsedReleases, entries);
+        const merged = parsedReleases.filter((r) => r.changelog).length;
+        console.log(`  ✓ Merged changelog notes into ${merged} releases`);
+      } catch (error) {
+        console.error(`  ✗ Failed to fetch changelog: ${error}`);
+      }
+
+      // Fetched releases are merged into the cached history rather than replacing it
+      parsedReleases = await cacheManager.upsertReleases(parsedReleases);
+      for (const source of report.sources.filter((s) => s.source === "releases")) {
+        await fetcher.commitValidators(source.url);
+      }
+      console.log(`  ✓ Release history: ${parsedReleases.length} releases`);
 
       if (parsedReleases.length > 0) {
         console.log(`  ✓ Latest: ${parsedReleases[0].version} (${parsedReleases[0].publishedAt.toISOString().split("T")[0]})`);
       }
-    } catch (error) {
-      console.error(`  ✗ Failed to fetch releases: ${error}`);
+    }
+  }
+
+  // Fetch and parse additional documentation sources
+  if (fetchDocs) {
+    for (const source of registry.list()) {
+      if (source.id === DEFAULT_DOC_SOURCE_ID) {
+        continue;
+      }
+
+      try {
+        console.log(`\nFetching ${source.name} from ${source.url}...`);
+        const hasCachedDocs =
+          !refresh && (await readCompatible(() => cacheManager.readDocsCache(source.id))) !== null;
+        const rawDocs = hasCachedDocs
+          ? await fetcher.fetchSourceIfModified(source)
+          : await fetcher.fetchSource(source);
+
+        if (rawDocs) {
+          const parsed = source.parse(rawDocs);
+          await cacheManager.writeDocsCache(parsed);
+          await fetcher.commitValidators(source.url);
+          console.log(`  ✓ Fetched: ${parsed.title}`);
+          console.log(`  ✓ Found ${parsed.sections.length} sections`);
+        } else {
+          console.log("  ✓ Unchanged since last fetch (304)");
+        }
+      } catch (error) {
+        console.error(`  ✗ Failed to fetch ${source.name}: ${error}`);
+      }
+    }
+  }
+
+  // Crawl every page linked from llms.txt into the per-page cache
+  if (crawlPages) {
+    const index =
+      parsedDocs?.index ?? (await readCompatible(() => cacheManager.readDocsCache()))?.index;
+
+    if (index) {
+      // Pages still within their time to live are skipped unless forced
+      const freshPages = new Set(
+        freshness.pages.filter((page) => !page.expired).map((page) => page.name)
+      );
+      const targets = refresh ? index : index.filter((page) => !freshPages.has(page.slug));
+
+      console.log(`\nCrawling ${targets.length} of ${index.length} pages listed in llms.txt...`);
+      // The crawler keeps its own validators: a 304 for a page it already
+      // fetched must not stop --regenerate-refs from seeing the new content
+      const pageValidators = new HttpValidatorStore(join(cacheDir, PAGES_DIR), storeOptions);
+      const crawler = new DocsCrawler(new PageCache(cacheDir, storeOptions), {
+        validatorStore: forceUpdate ? undefined : pageValidators,
+        transport,
+      });
+      const result = await crawler.crawlTargets(targets);
+
+      console.log(`  ✓ Fetched ${result.fetched} pages, ${result.unchanged} unchanged`);
+      for (const page of result.pages.filter((p) => p.status === "failed")) {
+        console.error(`  ✗ ${page.slug}: ${page.error}`);
+      }
+    } else {
+      console.error("\n  ✗ Cannot crawl pages: no llms.txt content available");
     }
   }
 
@@ -89,12 +360,12 @@ async function main() {
 
     // If we skipped docs, try to read from cache
     if (!parsedDocs) {
-      parsedDocs = await cacheManager.readDocsCache();
+      parsedDocs = await readCompatible(() => cacheManager.readDocsCache());
     }
 
     // If we skipped releases, try to read from cache
     if (parsedReleases.length === 0) {
-      parsedReleases = (await cacheManager.readReleasesCache()) || [];
+      parsedReleases = (await readCompatible(() => cacheManager.readReleasesCache())) || [];
     }
 
     if (parsedDocs) {
@@ -103,39 +374,92 @@ async function main() {
     }
   }
 
+  logExpiredReferences((await cacheManager.getFreshness()).references);
   console.log("\n✓ Documentation update complete!");
 }
 
+/**
+ * Generated references are only rebuilt by --regenerate-refs, so point out
+ * the ones past their time to live.
+ */
+function logExpiredReferences(references: ArtifactFreshness[]): void {
+  const expired = references.filter((ref) => ref.expired);
+  if (expired.length > 0) {
+    const ttl = expired[0]!.ttlHours;
+    console.log(
+      `\n⚠ ${expired.length} generated references are older than ${ttl} hours; ` +
+        "run with --regenerate-refs to refresh them"
+    );
+  }
+}
+
 async function regenerateReferences() {
   const refManager = new ReferenceManager(referencesDir);
-  const orchestrator = new ReferenceGeneratorOrchestrator(refManager);
+  // Without --force, categories whose sources all answer 304 are kept as-is.
+  // Fetched pages are kept in the page cache so --from-cache can work offline.
+  const orchestrator = new ReferenceGeneratorOrchestrator(refManager, {
+    validatorStore: forceUpdate ? undefined : new HttpValidatorStore(cacheDir, storeOptions),
+    transport,
+    pageCache: new PageCache(cacheDir, storeOptions),
+    fromCache,
+  });
+
+  if (fromCache) {
+    console.log("Regenerating from cached pages only (no network access)\n");
+  } else if (mirrorLocation) {
+    console.log(`Using documentation mirror: ${mirrorLocation}\n`);
+  }
 
   if (regenerateCategory) {
     // Validate category
     if (!ALL_CATEGORIES.includes(regenerateCategory)) {
       console.error(`Invalid category: ${regenerateCategory}`);
       console.error(`Valid categories: ${ALL_CATEGORIES.join(", ")}`);
-      process.exit(1);
+      process.exitCode = 1;
+      return;
     }
 
     console.log(`Regenerating references for category: ${regenerateCategory}...\n`);
     const result = await orchestrator.generateCategory(regenerateCategory);
 
-    if (result.success) {
+    if (result.unchanged) {
+      console.log(`  ✓ Unchanged: kept ${result.filesGenerated} files in ${result.category}/`);
+    } else if (result.success) {
       console.log(`  ✓ Generated ${result.filesGenerated} files in ${result.category}/`);
     } else {
       console.error(`  ✗ Failed: ${result.error}`);
-      process.exit(1);
+      process.exitCode = 1;
+      return;
     }
   } else {
-    console.log("Regenerating all reference files...\n");
-    const results = await orchestrator.generateAll();
+    // Without --force, categories whose references are all still fresh are kept
+    const cacheManager = new CacheManager(cacheDir, referencesDir);
+    const categories =
+      forceUpdate || fromCache
+        ? ALL_CATEGORIES
+        : await cacheManager.expiredReferenceCategories(ALL_CATEGORIES);
+    const fresh = ALL_CATEGORIES.length - categories.length;
+    if (categories.length === 0) {
+      console.log("All references are still fresh");
+      console.log("Use --force to regenerate anyway");
+      return;
+    }
+
+    console.log(
+      fresh > 0
+        ? `Regenerating ${categories.length} categories (${fresh} still fresh)...\n`
+        : "Regenerating all reference files...\n"
+    );
+    const results = await orchestrator.generateMultiple(categories);
 
     let totalFiles = 0;
     let failed = 0;
 
     for (const result of results) {
-      if (result.success) {
+      if (result.unchanged) {
+        console.log(`  ✓ ${result.category}/: ${result.filesGenerated} files (unchanged)`);
+        totalFiles += result.filesGenerated || 0;
+      } else if (result.success) {
         console.log(`  ✓ ${result.category}/: ${result.filesGenerated} files`);
         totalFiles += result.filesGenerated || 0;
       } else {
@@ -146,23 +470,59 @@ async function regenerateReferences() {
 
     console.log(`\nTotal: ${totalFiles} files generated`);
     if (failed > 0) {
+      await writeCatalogs(orchestrator.fetchedPages());
       console.error(`${failed} categories failed`);
-      process.exit(1);
+      process.exitCode = 1;
+      return;
     }
   }
 
+  await writeCatalogs(orchestrator.fetchedPages());
   console.log("\n✓ Reference regeneration complete!");
 }
 
-// Main entry point
-if (regenerateRefs) {
-  regenerateReferences().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-  });
-} else {
-  main().catch((error) => {
-    console.error("Error:", error);
-    process.exit(1);
-  });
+/**
+ * Reads a cache, treating one from an unsupported version as absent so it is refetched.
+ */
+async function readCompatible<T>(read: () => Promise<T | null>): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error) {
+    if (!(error instanceof CacheIncompatibleError)) {
+      throw error;
+    }
+    console.warn(`  ⚠ ${error.message}; refetching`);
+    return null;
+  }
 }
+
+/**
+ * Extracts settings, env vars, CLI flags and hook events from the pages
+ * fetched during regeneration into cache/catalogs.json.
+ */
+async function writeCatalogs(pages: DocPage[]) {
+  if (pages.length === 0) {
+    return;
+  }
+
+  const catalog = new CatalogExtractor().extract(pages);
+  const merged = await new CacheManager(cacheDir, referencesDir).writeCatalogs(catalog);
+  console.log(
+    `  ✓ Catalogs: ${merged.settings.length} settings, ${merged.envVars.length} env vars, ` +
+      `${merged.cliFlags.length} CLI flags, ${merged.hookEvents.length} hook events`
+  );
+}
+
+// Main entry point; with --no-wait a second run exits instead of waiting
+withUpdateLock(cacheDir, regenerateRefs ? regenerateReferences : main, {
+  timeoutMs: noWait ? 0 : undefined,
+  onWait: (holder) =>
+    console.log(`Waiting for another update${holder ? ` (pid ${holder.pid})` : ""} to finish...`),
+}).catch((error) => {
+  if (error instanceof LockHeldError) {
+    console.log(`Another update is already running; exiting. ${error.message}`);
+    return;
+  }
+  console.error("Error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { writeFileAtomic } from "./atomic-write.ts";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("writeFileAtomic", () => {
+  const testDir = "/tmp/phoenixlab-atomic-write-test";
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should replace the file and leave no temporary files", async () => {
+    const path = join(testDir, "docs.json");
+    await writeFile(path, "old");
+
+    await writeFileAtomic(path, "new");
+
+    expect(await readFile(path, "utf-8")).toBe("new");
+    expect(await readdir(testDir)).toEqual(["docs.json"]);
+  });
+
+  it("should keep the last of several concurrent writes intact", async () => {
+    const path = join(testDir, "docs.json");
+    const contents = ["a", "b", "c"].map((letter) => letter.repeat(100_000));
+
+    await Promise.all(contents.map((content) => writeFileAtomic(path, content)));
+
+    expect(contents).toContain(await readFile(path, "utf-8"));
+    expect(await readdir(testDir)).toEqual(["docs.json"]);
+  });
+
+  it("should clean up and rethrow when the target cannot be written", async () => {
+    await mkdir(join(testDir, "docs.json"));
+
+    await expect(writeFileAtomic(join(testDir, "docs.json"), "new")).rejects.toThrow();
+    expect(await readdir(testDir)).toEqual(["docs.json"]);
+  });
+});
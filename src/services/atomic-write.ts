@@ -0,0 +1,20 @@
+import { rename, rm, writeFile } from "node:fs/promises";
+
+let tempCounter = 0;
+
+/**
+ * Writes `content` to a temporary file beside `path` and renames it into
+ * place, so readers see either the old file or the new one, never a
+ * half-written one.
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${++tempCounter}.tmp`;
+
+  try {
+    await writeFile(tempPath, content);
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { CacheManager, type CacheMetadata } from "./cache-manager.ts";
+import { CacheManager, type CacheMetadata, type QuarantineReport } from "./cache-manager.ts";
 import type { ParsedContent, ParsedRelease } from "./docs-parser.ts";
-import { mkdir, rm, readFile, exists } from "node:fs/promises";
+import { emptyCatalog, type EntityCatalog } from "./entity-catalog.ts";
+import { CACHE_VERSION, CacheIncompatibleError } from "./cache-migrations.ts";
+import { CacheValidationError } from "./cache-schema.ts";
+import { PageCache } from "./page-cache.ts";
+import { ReferenceManager } from "./reference-manager.ts";
+import { mkdir, rm, readFile, writeFile, exists } from "node:fs/promises";
 import { join } from "node:path";
 
 describe("CacheManager", () => {
@@ -107,6 +112,117 @@ describe("CacheManager", () => {
 
       expect(cached).toBeNull();
     });
+
+    it("should rebuild the page index for caches written without one", async () => {
+      // Version 1.0.0 caches predate the index
+      await writeFile(
+        join(testCacheDir, "docs.json"),
+        JSON.stringify({
+          title: "Claude Code",
+          source: "llms.txt",
+          url: "https://code.claude.com/docs/llms.txt",
+          fetchedAt: "2024-01-15T12:00:00.000Z",
+          sections: [],
+          rawText: "## Docs\n\n- [Hooks](https://code.claude.com/docs/en/hooks.md): Hook events",
+          _metadata: { cachedAt: new Date().toISOString(), version: "1.0.0" },
+        })
+      );
+
+      const cached = await cacheManager.readDocsCache();
+
+      expect(cached!.index).toEqual([
+        {
+          title: "Hooks",
+          url: "https://code.claude.com/docs/en/hooks.md",
+          slug: "hooks",
+          description: "Hook events",
+          group: "Docs",
+        },
+      ]);
+    });
+
+    it("should keep each source in its own cache slot", async () => {
+      const content: ParsedContent = {
+        title: "Agent SDK",
+        source: "agent-sdk",
+        url: "https://example.com/agent-sdk/llms.txt",
+        fetchedAt: new Date("2024-01-15T12:00:00Z"),
+        sections: [],
+        rawText: "",
+      };
+      await cacheManager.writeDocsCache(content);
+
+      expect(await exists(join(testCacheDir, "sources", "agent-sdk.json"))).toBe(true);
+      expect((await cacheManager.readDocsCache("agent-sdk"))!.title).toBe("Agent SDK");
+      expect(await cacheManager.readDocsCache()).toBeNull();
+    });
+
+    it("should reject unsafe source ids", async () => {
+      await expect(cacheManager.readDocsCache("../docs")).rejects.toThrow(
+        "Invalid documentation source id: ../docs"
+      );
+    });
+  });
+
+  describe("upsertReleases", () => {
+    const release = (version: string, rawBody = ""): ParsedRelease => ({
+      version,
+      name: version,
+      publishedAt: new Date("2024-01-15T00:00:00.000Z"),
+      url: `https://github.com/anthropics/claude-code/releases/tag/${version}`,
+      features: [],
+      rawBody,
+    });
+
+    it("should keep older releases that were not fetched again", async () => {
+      await cacheManager.upsertReleases([release("v1.0.1"), release("v1.0.0")]);
+
+      const merged = await cacheManager.upsertReleases([release("v1.0.2"), release("v1.0.1")]);
+
+      expect(merged.map((r) => r.version)).toEqual(["v1.0.2", "v1.0.1", "v1.0.0"]);
+      expect((await cacheManager.readReleasesCache())!.map((r) => r.version)).toEqual([
+        "v1.0.2",
+        "v1.0.1",
+        "v1.0.0",
+      ]);
+    });
+
+    it("should update edited releases and keep fields the fetch lacks", async () => {
+      await cacheManager.upsertReleases([{ ...release("v1.0.0", "- Old"), changelog: ["Old"] }]);
+
+      const [merged] = await cacheManager.upsertReleases([release("v1.0.0", "- Edited")]);
+
+      expect(merged!.rawBody).toBe("- Edited");
+      expect(merged!.changelog).toEqual(["Old"]);
+    });
+
+    it("should keep only the newest maxReleases", async () => {
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, { maxReleases: 2 });
+      await cacheManager.upsertReleases([release("v1.0.0")]);
+
+      const merged = await cacheManager.upsertReleases([release("v1.0.2"), release("v1.0.1")]);
+
+      expect(merged.map((r) => r.version)).toEqual(["v1.0.2", "v1.0.1"]);
+    });
+
+    it("should reject a maxReleases that is not a non-negative integer", () => {
+      for (const maxReleases of [NaN, -1, 1.5]) {
+        expect(() => new CacheManager(testCacheDir, testReferencesDir, { maxReleases })).toThrow(
+          "maxReleases must be a non-negative integer"
+        );
+      }
+    });
+
+    it("should replace a history from an unsupported version", async () => {
+      await writeFile(
+        join(testCacheDir, "releases.json"),
+        JSON.stringify({ releases: [], _metadata: { cachedAt: "", version: "99.0.0" } })
+      );
+
+      const merged = await cacheManager.upsertReleases([release("v1.0.0")]);
+
+      expect(merged.map((r) => r.version)).toEqual(["v1.0.0"]);
+    });
   });
 
   describe("readReleasesCache", () => {
@@ -134,6 +250,302 @@ describe("CacheManager", () => {
 
       expect(cached).toBeNull();
     });
+
+    it("should sort releases by version and backfill parsed versions", async () => {
+      // Caches written before versions were parsed keep the API's order
+      await writeFile(
+        join(testCacheDir, "releases.json"),
+        JSON.stringify({
+          releases: ["v1.0.9", "v1.0.10"].map((version) => ({
+            version,
+            name: version,
+            publishedAt: "2024-01-15T00:00:00.000Z",
+            url: "https://example.com",
+            features: [],
+            rawBody: "",
+          })),
+          _metadata: { cachedAt: new Date().toISOString(), version: "1.0.0" },
+        })
+      );
+
+      const cached = await cacheManager.readReleasesCache();
+
+      expect(cached!.map((r) => r.version)).toEqual(["v1.0.10", "v1.0.9"]);
+      expect(cached![0]!.semver?.patch).toBe(10);
+    });
+  });
+
+  describe("readReleasesInRange", () => {
+    const release = (version: string): ParsedRelease => ({
+      version,
+      name: version,
+      publishedAt: new Date("2024-01-15"),
+      url: "https://example.com",
+      features: [],
+      rawBody: "",
+    });
+
+    beforeEach(async () => {
+      await cacheManager.writeReleasesCache(
+        ["v1.0.29", "v1.0.30", "v1.0.45", "v1.1.0", "nightly"].map(release)
+      );
+    });
+
+    it("should return cached releases matching the range, newest first", async () => {
+      const releases = await cacheManager.readReleasesInRange(">=1.0.30 <1.1");
+
+      expect(releases.map((r) => r.version)).toEqual(["v1.0.45", "v1.0.30"]);
+    });
+
+    it("should return releases between two versions inclusively", async () => {
+      const releases = await cacheManager.readReleasesBetween("1.0.30", "v1.1.0");
+
+      expect(releases.map((r) => r.version)).toEqual(["v1.1.0", "v1.0.45", "v1.0.30"]);
+    });
+  });
+
+  describe("cache versioning", () => {
+    const writeCache = (name: string, data: object) =>
+      writeFile(join(testCacheDir, name), JSON.stringify(data));
+
+    it("should write the current cache version", async () => {
+      await cacheManager.writeReleasesCache([]);
+
+      const data = JSON.parse(await readFile(join(testCacheDir, "releases.json"), "utf-8"));
+      expect(data._metadata.version).toBe(CACHE_VERSION);
+    });
+
+    it("should migrate releases from older versions on read", async () => {
+      await writeCache("releases.json", {
+        releases: [
+          {
+            version: "v1.0.0",
+            name: "Release",
+            publishedAt: "2024-01-15T00:00:00.000Z",
+            url: "https://example.com",
+            features: [],
+            rawBody: "- Fixed a crash",
+          },
+        ],
+        _metadata: { cachedAt: new Date().toISOString(), version: "1.0.0" },
+      });
+
+      const cached = await cacheManager.readReleasesCache();
+
+      expect(cached![0]!.changes).toEqual([{ type: "fixed", text: "Fixed a crash" }]);
+      expect(cached![0]!.publishedAt).toEqual(new Date("2024-01-15T00:00:00.000Z"));
+    });
+
+    it("should reject caches written by a newer version", async () => {
+      await writeCache("docs.json", {
+        title: "Claude Code",
+        _metadata: { cachedAt: new Date().toISOString(), version: "3.0.0" },
+      });
+
+      await expect(cacheManager.readDocsCache()).rejects.toThrow(
+        "Cache incompatible, refresh required"
+      );
+      await expect(cacheManager.readDocsCache()).rejects.toBeInstanceOf(CacheIncompatibleError);
+    });
+
+    it("should list every incompatible cache file", async () => {
+      await cacheManager.writeReleasesCache([]);
+      await writeCache("docs.json", { _metadata: { cachedAt: "", version: "not-a-version" } });
+      await writeCache("catalogs.json", { _metadata: { cachedAt: "", version: "9.9.9" } });
+
+      const errors = await cacheManager.findIncompatibleCaches();
+
+      expect(errors.map((error) => error.version)).toEqual(["not-a-version", "9.9.9"]);
+    });
+
+    it("should replace incompatible catalogs instead of merging into them", async () => {
+      await writeCache("catalogs.json", { _metadata: { cachedAt: "", version: "9.9.9" } });
+
+      const catalog = await cacheManager.writeCatalogs(emptyCatalog());
+
+      expect(catalog).toEqual(emptyCatalog());
+      expect(await cacheManager.findIncompatibleCaches()).toEqual([]);
+    });
+  });
+
+  describe("cache validation", () => {
+    const metadata = { cachedAt: new Date().toISOString(), version: CACHE_VERSION };
+
+    it("should quarantine a truncated cache file and report a miss", async () => {
+      const reports: QuarantineReport[] = [];
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+        onQuarantine: (report) => reports.push(report),
+      });
+      await writeFile(join(testCacheDir, "docs.json"), '{"title": "Claude Co');
+
+      expect(await cacheManager.readDocsCache()).toBeNull();
+      expect(await exists(join(testCacheDir, "docs.json"))).toBe(false);
+      expect(reports).toHaveLength(1);
+      expect(reports[0]!.quarantinedPath).toStartWith(join(testCacheDir, "docs.json.corrupt-"));
+      expect(await exists(reports[0]!.quarantinedPath)).toBe(true);
+      expect(reports[0]!.error).toBeInstanceOf(CacheValidationError);
+    });
+
+    it("should quarantine releases with an invalid date", async () => {
+      const reports: QuarantineReport[] = [];
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+        onQuarantine: (report) => reports.push(report),
+      });
+      const release = {
+        version: "v1.0.0",
+        name: "Release",
+        publishedAt: "yesterday-ish",
+        url: "https://example.com",
+        features: [],
+        rawBody: "",
+      };
+      await writeFile(
+        join(testCacheDir, "releases.json"),
+        JSON.stringify({ releases: [release], _metadata: metadata })
+      );
+
+      expect(await cacheManager.readReleasesCache()).toBeNull();
+      expect(reports[0]!.error.issues[0]!.path).toBe("$.releases[0].publishedAt");
+    });
+
+    it("should treat a corrupt docs cache as having no metadata", async () => {
+      await writeFile(join(testCacheDir, "docs.json"), JSON.stringify({ _metadata: metadata }));
+
+      expect(await cacheManager.getCacheMetadata()).toBeNull();
+      expect(await cacheManager.isCacheValid()).toBe(false);
+    });
+  });
+
+  describe("snapshots", () => {
+    const release: ParsedRelease = {
+      version: "v1.0.0",
+      name: "Release",
+      publishedAt: new Date("2024-01-15T00:00:00.000Z"),
+      url: "https://example.com",
+      features: [],
+      rawBody: "",
+    };
+
+    it("should snapshot docs and releases on every changed write", async () => {
+      const content: ParsedContent = {
+        title: "Claude Code",
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15T12:00:00Z"),
+        sections: [],
+        rawText: "first",
+      };
+      await cacheManager.writeDocsCache(content);
+      await Bun.sleep(2);
+      await cacheManager.writeDocsCache({ ...content, rawText: "second" });
+      await cacheManager.writeReleasesCache([release]);
+
+      const snapshots = await cacheManager.listSnapshots("docs");
+
+      expect(snapshots).toHaveLength(2);
+      expect((await cacheManager.readDocsSnapshot(snapshots[1]!.id))!.rawText).toBe("first");
+      expect((await cacheManager.readDocsSnapshot(snapshots[0]!.id))!.fetchedAt).toEqual(
+        content.fetchedAt
+      );
+      expect(await cacheManager.listSnapshots("releases")).toHaveLength(1);
+    });
+
+    it("should not snapshot a write whose content is unchanged", async () => {
+      await cacheManager.writeReleasesCache([release]);
+      await Bun.sleep(2);
+      await cacheManager.writeReleasesCache([release]);
+
+      expect(await cacheManager.listSnapshots("releases")).toHaveLength(1);
+
+      await Bun.sleep(2);
+      await cacheManager.writeReleasesCache([{ ...release, rawBody: "Edited" }]);
+
+      expect(await cacheManager.listSnapshots("releases")).toHaveLength(2);
+    });
+
+    it("should still prune snapshots when the content is unchanged", async () => {
+      await cacheManager.writeReleasesCache([release]);
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+        retention: { maxCount: 0 },
+      });
+
+      await cacheManager.writeReleasesCache([release]);
+
+      expect(await cacheManager.listSnapshots("releases")).toEqual([]);
+    });
+
+    it("should load releases from a snapshot", async () => {
+      await cacheManager.writeReleasesCache([release]);
+      const [snapshot] = await cacheManager.listSnapshots("releases");
+
+      const releases = await cacheManager.readReleasesSnapshot(snapshot!.id);
+
+      expect(releases![0]!.publishedAt).toEqual(release.publishedAt);
+    });
+
+    it("should return null for an unknown snapshot", async () => {
+      expect(await cacheManager.readDocsSnapshot("2024-01-15T12-00-00-000Z")).toBeNull();
+    });
+
+    it("should not snapshot additional documentation sources", async () => {
+      await cacheManager.writeDocsCache({
+        title: "Agent SDK",
+        source: "agent-sdk",
+        url: "https://example.com/llms.txt",
+        fetchedAt: new Date(),
+        sections: [],
+        rawText: "",
+      });
+
+      expect(await cacheManager.listSnapshots("docs")).toEqual([]);
+    });
+
+    it("should prune snapshots by the configured retention", async () => {
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+        retention: { maxCount: 1 },
+      });
+      await cacheManager.writeReleasesCache([release]);
+      await Bun.sleep(2);
+      await cacheManager.writeReleasesCache([]);
+
+      const snapshots = await cacheManager.listSnapshots("releases");
+
+      expect(snapshots).toHaveLength(1);
+      expect(await cacheManager.readReleasesSnapshot(snapshots[0]!.id)).toEqual([]);
+    });
+  });
+
+  describe("writeCatalogs", () => {
+    const catalogFor = (url: string, name: string): EntityCatalog => ({
+      ...emptyCatalog(),
+      envVars: [{ name, description: "", source: { url, title: "Page" } }],
+      sources: [url],
+    });
+
+    it("should write catalogs.json", async () => {
+      await cacheManager.writeCatalogs(catalogFor("https://example.com/settings", "A"));
+
+      const data = JSON.parse(await readFile(join(testCacheDir, "catalogs.json"), "utf-8"));
+      expect(data.envVars[0].name).toBe("A");
+      expect(data._metadata.version).toBeDefined();
+      expect((await cacheManager.readCatalogs())!.envVars).toHaveLength(1);
+    });
+
+    it("should replace entries from refetched pages and keep the rest", async () => {
+      await cacheManager.writeCatalogs(catalogFor("https://example.com/settings", "OLD"));
+      await cacheManager.writeCatalogs(catalogFor("https://example.com/cli", "CLI"));
+
+      const merged = await cacheManager.writeCatalogs(
+        catalogFor("https://example.com/settings", "NEW")
+      );
+
+      expect(merged.envVars.map((envVar) => envVar.name)).toEqual(["CLI", "NEW"]);
+      expect(merged.sources).toEqual(["https://example.com/settings", "https://example.com/cli"]);
+    });
+
+    it("should return null when no catalogs are cached", async () => {
+      expect(await cacheManager.readCatalogs()).toBeNull();
+    });
   });
 
   describe("generateReferences", () => {
@@ -170,6 +582,99 @@ describe("CacheManager", () => {
       expect(releasesContent).toContain("Feature A");
     });
 
+    it("should prefer changelog items over the release body", async () => {
+      const content: ParsedContent = {
+        title: "Claude Code",
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15T12:00:00Z"),
+        sections: [],
+        rawText: "",
+      };
+      const releases: ParsedRelease[] = [
+        {
+          version: "v1.0.0",
+          name: "Release 1.0.0",
+          publishedAt: new Date("2024-01-15"),
+          url: "https://example.com",
+          features: [],
+          rawBody: "Short GitHub body",
+          changelog: ["Added hooks", "Fixed MCP reconnects"],
+        },
+      ];
+
+      await cacheManager.generateReferences(content, releases);
+
+      const releasesContent = await readFile(join(testReferencesDir, "releases.md"), "utf-8");
+      expect(releasesContent).toContain("### Changelog");
+      expect(releasesContent).toContain("- Fixed MCP reconnects");
+      expect(releasesContent).not.toContain("Short GitHub body");
+    });
+
+    it("should group categorised changes", async () => {
+      const content: ParsedContent = {
+        title: "Claude Code",
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15T12:00:00Z"),
+        sections: [],
+        rawText: "",
+      };
+      const releases: ParsedRelease[] = [
+        {
+          version: "v1.0.0",
+          name: "Release 1.0.0",
+          publishedAt: new Date("2024-01-15"),
+          url: "https://example.com",
+          features: [],
+          rawBody: "- Fixed resize\n- Added hooks",
+          changes: [
+            { type: "fixed", text: "Fixed resize" },
+            { type: "added", text: "Added hooks" },
+          ],
+        },
+      ];
+
+      await cacheManager.generateReferences(content, releases);
+
+      const releasesContent = await readFile(join(testReferencesDir, "releases.md"), "utf-8");
+      expect(releasesContent.indexOf("### Added")).toBeLessThan(releasesContent.indexOf("### Fixed"));
+      expect(releasesContent).toContain("### Fixed\n\n- Fixed resize");
+      expect(releasesContent).not.toContain("### Release Notes");
+    });
+
+    it("should keep nested bullets and prose alongside categorised changes", async () => {
+      const content: ParsedContent = {
+        title: "Claude Code",
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15T12:00:00Z"),
+        sections: [],
+        rawText: "",
+      };
+      const releases: ParsedRelease[] = [
+        {
+          version: "v1.0.0",
+          name: "Release 1.0.0",
+          publishedAt: new Date("2024-01-15"),
+          url: "https://example.com",
+          features: [],
+          rawBody: "Upgrade before Friday.\n\n- Fixed hooks\n  - Added retry",
+          changes: [
+            { type: "fixed", text: "Fixed hooks" },
+            { type: "added", text: "Added retry", depth: 1 },
+          ],
+        },
+      ];
+
+      await cacheManager.generateReferences(content, releases);
+
+      const releasesContent = await readFile(join(testReferencesDir, "releases.md"), "utf-8");
+      expect(releasesContent).toContain("### Fixed\n\n- Fixed hooks\n  - Added retry\n");
+      expect(releasesContent).not.toContain("### Added");
+      expect(releasesContent).toContain("### Notes\n\nUpgrade before Friday.\n");
+    });
+
     it("should handle empty releases", async () => {
       const content: ParsedContent = {
         title: "Claude Code",
@@ -210,6 +715,24 @@ describe("CacheManager", () => {
       expect(isValid).toBe(true);
     });
 
+    it("should return false if any cache needs a refresh", async () => {
+      const content: ParsedContent = {
+        title: "Claude Code",
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date(),
+        sections: [],
+        rawText: "",
+      };
+      await cacheManager.writeDocsCache(content);
+      await writeFile(
+        join(testCacheDir, "releases.json"),
+        JSON.stringify({ releases: [], _metadata: { cachedAt: "", version: "99.0.0" } })
+      );
+
+      expect(await cacheManager.isCacheValid()).toBe(false);
+    });
+
     it("should return false if cache is stale", async () => {
       const content: ParsedContent = {
         title: "Claude Code",
@@ -228,6 +751,329 @@ describe("CacheManager", () => {
     });
   });
 
+  describe("getFreshness", () => {
+    const content: ParsedContent = {
+      title: "Claude Code",
+      source: "llms.txt",
+      url: "https://code.claude.com/docs/llms.txt",
+      fetchedAt: new Date(),
+      sections: [],
+      rawText: "",
+    };
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    it("should report missing docs and releases as expired", async () => {
+      const freshness = await cacheManager.getFreshness();
+
+      expect(freshness.docs.expired).toBe(true);
+      expect(freshness.docs.checkedAt).toBeNull();
+      expect(freshness.releases.expired).toBe(true);
+      expect(freshness.pages).toEqual([]);
+      expect(freshness.references).toEqual([]);
+    });
+
+    it("should track docs and releases independently", async () => {
+      await cacheManager.writeDocsCache(content);
+      await cacheManager.writeReleasesCache([]);
+
+      // Releases default to a 6 hour TTL, docs to 24 hours
+      const freshness = await cacheManager.getFreshness(hoursFromNow(12));
+
+      expect(freshness.docs.expired).toBe(false);
+      expect(freshness.releases.expired).toBe(true);
+    });
+
+    it("should report an incompatible cache as expired", async () => {
+      await cacheManager.writeDocsCache(content);
+      await writeFile(
+        join(testCacheDir, "releases.json"),
+        JSON.stringify({ releases: [], _metadata: { cachedAt: "", version: "99.0.0" } })
+      );
+
+      const freshness = await cacheManager.getFreshness();
+
+      expect(freshness.docs.expired).toBe(false);
+      expect(freshness.releases.expired).toBe(true);
+    });
+
+    it("should treat a 304 confirmation as a refresh", async () => {
+      await cacheManager.writeReleasesCache([]);
+      await cacheManager.markChecked("releases", hoursFromNow(10));
+
+      const freshness = await cacheManager.getFreshness(hoursFromNow(12));
+
+      expect(freshness.releases.expired).toBe(false);
+    });
+
+    it("should apply configured time to live overrides", async () => {
+      cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+        ttlHours: { docs: 1 },
+      });
+      await cacheManager.writeDocsCache(content);
+
+      expect((await cacheManager.getFreshness(hoursFromNow(2))).docs.expired).toBe(true);
+    });
+
+    it("should assess every cached page and generated reference", async () => {
+      await new PageCache(testCacheDir).writePage(
+        { slug: "hooks", url: "https://code.claude.com/docs/en/hooks.md", content: "# Hooks" },
+        hoursFromNow(-200)
+      );
+      await cacheManager.generateReferences(content, []);
+
+      const freshness = await cacheManager.getFreshness();
+
+      expect(freshness.pages.map((page) => [page.name, page.expired])).toEqual([["hooks", true]]);
+      expect(freshness.references.map((ref) => [ref.name, ref.expired])).toEqual([
+        ["releases.md", false],
+      ]);
+    });
+  });
+
+  describe("planUpdate", () => {
+    const content: ParsedContent = {
+      title: "Claude Code",
+      source: "llms.txt",
+      url: "https://code.claude.com/docs/llms.txt",
+      fetchedAt: new Date(),
+      sections: [],
+      rawText: "",
+    };
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    it("should fetch everything in full without a cache", async () => {
+      const plan = await cacheManager.planUpdate();
+
+      expect(plan.fetchDocs).toBe(true);
+      expect(plan.fetchReleases).toBe(true);
+      expect(plan.refresh).toBe(false);
+      expect(plan.conditional).toBe(false);
+    });
+
+    it("should revalidate only the expired artifacts", async () => {
+      await cacheManager.writeDocsCache(content);
+      await cacheManager.writeReleasesCache([]);
+
+      const plan = await cacheManager.planUpdate({}, hoursFromNow(12));
+
+      expect(plan.fetchDocs).toBe(false);
+      expect(plan.fetchReleases).toBe(true);
+      expect(plan.conditional).toBe(true);
+    });
+
+    it("should honour force and skip options", async () => {
+      await cacheManager.writeDocsCache(content);
+      await cacheManager.writeReleasesCache([]);
+
+      const plan = await cacheManager.planUpdate({ force: true, skipReleases: true });
+
+      expect(plan.refresh).toBe(true);
+      expect(plan.fetchDocs).toBe(true);
+      expect(plan.fetchReleases).toBe(false);
+      expect(plan.conditional).toBe(false);
+    });
+
+    it("should refetch in full when a cache is incompatible", async () => {
+      await cacheManager.writeReleasesCache([]);
+      await writeFile(
+        join(testCacheDir, "docs.json"),
+        JSON.stringify({ ...content, _metadata: { cachedAt: "", version: "99.0.0" } })
+      );
+
+      const plan = await cacheManager.planUpdate({ skipDocs: true });
+
+      expect(plan.incompatible).toHaveLength(1);
+      expect(plan.incompatible[0]).toBeInstanceOf(CacheIncompatibleError);
+      expect(plan.refresh).toBe(true);
+      expect(plan.fetchDocs).toBe(false);
+      expect(plan.fetchReleases).toBe(true);
+      expect(plan.conditional).toBe(false);
+    });
+
+    it("should refetch in full when a cache was quarantined", async () => {
+      await cacheManager.writeReleasesCache([]);
+      await writeFile(join(testCacheDir, "docs.json"), '{"title": "Claude Co');
+
+      const plan = await cacheManager.planUpdate();
+
+      expect(plan.refresh).toBe(true);
+      expect(plan.fetchReleases).toBe(true);
+      expect(plan.conditional).toBe(false);
+    });
+  });
+
+  describe("expiredReferenceCategories", () => {
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    it("should return categories with missing or expired references", async () => {
+      await new ReferenceManager(testReferencesDir).writeReference({
+        path: "hooks/overview.md",
+        topic: "Hooks",
+        content: "# Hooks",
+        lastUpdated: new Date(),
+      });
+
+      const categories = ["hooks", "mcp"] as const;
+
+      expect(await cacheManager.expiredReferenceCategories(categories)).toEqual(["mcp"]);
+      expect(await cacheManager.expiredReferenceCategories(categories, hoursFromNow(200))).toEqual(
+        ["hooks", "mcp"]
+      );
+    });
+  });
+
+  describe("inspection", () => {
+    const content: ParsedContent = {
+      title: "Claude Code",
+      source: "llms.txt",
+      url: "https://code.claude.com/docs/llms.txt",
+      fetchedAt: new Date(),
+      sections: [],
+      rawText: "",
+    };
+    const hooksPage = {
+      slug: "hooks",
+      url: "https://code.claude.com/docs/en/hooks.md",
+      content: "# Hooks",
+    };
+
+    describe("getStatus", () => {
+      it("should report size, version, hash and freshness per artifact", async () => {
+        await cacheManager.writeDocsCache(content);
+        await new PageCache(testCacheDir).writePage(hooksPage);
+        await cacheManager.generateReferences(content, []);
+
+        const statuses = await cacheManager.getStatus();
+        const docs = statuses.find((status) => status.name === "docs.json")!;
+        const releases = statuses.find((status) => status.name === "releases.json")!;
+        const page = statuses.find((status) => status.artifact === "pages")!;
+
+        expect(docs.exists).toBe(true);
+        expect(docs.version).toBe(CACHE_VERSION);
+        expect(docs.bytes).toBe((await readFile(join(testCacheDir, "docs.json"))).length);
+        expect(docs.hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(docs.freshness!.expired).toBe(false);
+        expect(releases.exists).toBe(false);
+        expect(releases.freshness!.expired).toBe(true);
+        expect(page.name).toBe("pages/hooks.md");
+        expect(statuses.map((status) => status.artifact)).toContain("snapshots");
+        expect(statuses.find((status) => status.artifact === "references")!.name).toBe(
+          "releases.md"
+        );
+      });
+    });
+
+    describe("verify", () => {
+      it("should report schema issues without quarantining", async () => {
+        const metadata = { cachedAt: new Date().toISOString(), version: CACHE_VERSION };
+        await writeFile(
+          join(testCacheDir, "releases.json"),
+          JSON.stringify({ releases: {}, _metadata: metadata })
+        );
+
+        const issues = await cacheManager.verify();
+
+        expect(issues).toEqual([
+          {
+            artifact: "releases",
+            name: "releases.json",
+            message: "$.releases: expected array, got object",
+          },
+        ]);
+        expect(await exists(join(testCacheDir, "releases.json"))).toBe(true);
+      });
+
+      it("should report incompatible caches and corrupt pages", async () => {
+        await writeFile(
+          join(testCacheDir, "catalogs.json"),
+          JSON.stringify({ _metadata: { cachedAt: "", version: "9.9.9" } })
+        );
+        await new PageCache(testCacheDir).writePage(hooksPage);
+        await writeFile(join(testCacheDir, "pages", "hooks.md"), "edited");
+
+        const issues = await cacheManager.verify();
+
+        expect(issues.map((issue) => [issue.name, issue.artifact])).toEqual([
+          ["catalogs.json", "catalogs"],
+          ["pages/hooks.md", "pages"],
+        ]);
+        expect(issues[1]!.message).toBe("hash mismatch");
+      });
+
+      it("should report a corrupt page index without quarantining it", async () => {
+        await new PageCache(testCacheDir).writePage(hooksPage);
+        const indexPath = join(testCacheDir, "pages", "index.json");
+        await writeFile(indexPath, '{"hooks": ');
+
+        const issues = await cacheManager.verify();
+
+        expect(issues).toHaveLength(1);
+        expect(issues[0]!.artifact).toBe("pages");
+        expect(issues[0]!.name).toBe("pages/index.json");
+        expect(await exists(indexPath)).toBe(true);
+      });
+
+      it("should report nothing for a healthy cache", async () => {
+        await cacheManager.writeDocsCache(content);
+        await cacheManager.writeReleasesCache([]);
+
+        expect(await cacheManager.verify()).toEqual([]);
+      });
+    });
+
+    describe("clear", () => {
+      it("should remove only the named artifact", async () => {
+        await cacheManager.writeDocsCache(content);
+        await cacheManager.writeReleasesCache([]);
+
+        const removed = await cacheManager.clear("releases");
+
+        expect(removed).toEqual([join(testCacheDir, "releases.json")]);
+        expect(await cacheManager.readReleasesCache()).toBeNull();
+        expect(await cacheManager.readDocsCache()).not.toBeNull();
+      });
+
+      it("should remove everything when no artifact is named", async () => {
+        await cacheManager.writeDocsCache(content);
+        await new PageCache(testCacheDir).writePage(hooksPage);
+
+        await cacheManager.clear();
+
+        expect(await exists(join(testCacheDir, "docs.json"))).toBe(false);
+        expect(await exists(join(testCacheDir, "pages"))).toBe(false);
+        expect(await exists(join(testCacheDir, "snapshots"))).toBe(false);
+        expect(await exists(join(testCacheDir, "freshness.json"))).toBe(false);
+      });
+    });
+
+    describe("gc", () => {
+      it("should prune snapshots and remove orphaned page files", async () => {
+        cacheManager = new CacheManager(testCacheDir, testReferencesDir, {
+          retention: { maxCount: 1 },
+        });
+        const release: ParsedRelease = {
+          version: "v1.0.0",
+          name: "Release",
+          publishedAt: new Date("2024-01-15T00:00:00.000Z"),
+          url: "https://example.com",
+          features: [],
+          rawBody: "",
+        };
+        await new CacheManager(testCacheDir, testReferencesDir).writeReleasesCache([]);
+        await Bun.sleep(2);
+        await new CacheManager(testCacheDir, testReferencesDir).writeReleasesCache([release]);
+        await new PageCache(testCacheDir).writePage(hooksPage);
+        await writeFile(join(testCacheDir, "pages", "stray.md"), "# Stray");
+
+        const result = await cacheManager.gc();
+
+        expect(result.snapshots).toHaveLength(1);
+        expect(result.pages).toEqual(["stray"]);
+        expect(await cacheManager.listSnapshots("releases")).toHaveLength(1);
+      });
+    });
+  });
+
   describe("getCacheMetadata", () => {
     it("should return null if no cache exists", async () => {
       const metadata = await cacheManager.getCacheMetadata();
@@ -1,6 +1,45 @@
-import { mkdir, readFile, writeFile, exists } from "node:fs/promises";
-import { join } from "node:path";
-import type { ParsedContent, ParsedRelease } from "./docs-parser.ts";
+import { mkdir, readdir, readFile, rm, stat, exists } from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+import { createHash } from "node:crypto";
+import { writeFileAtomic } from "./atomic-write.ts";
+import { sortReleases, type ParsedContent, type ParsedRelease } from "./docs-parser.ts";
+import { DEFAULT_DOC_SOURCE_ID, DOC_SOURCE_ID_PATTERN } from "./doc-sources.ts";
+import {
+  ReleaseNotesParser,
+  type ReleaseChange,
+  type ReleaseChangeType,
+} from "./release-notes-parser.ts";
+import { parseRange, parseSemVer, satisfies } from "./semver.ts";
+import { mergeCatalogs, type EntityCatalog } from "./entity-catalog.ts";
+import {
+  CACHE_VERSION,
+  CacheIncompatibleError,
+  migrateCache,
+  type CacheData,
+  type CacheKind,
+} from "./cache-migrations.ts";
+import { CacheValidationError, validateCache, validatePageIndex } from "./cache-schema.ts";
+import { loadJsonFile, quarantineFile, type QuarantineReport } from "./quarantine.ts";
+import {
+  SNAPSHOT_KINDS,
+  SNAPSHOTS_DIR,
+  SnapshotStore,
+  type RetentionPolicy,
+  type SnapshotInfo,
+  type SnapshotKind,
+} from "./snapshot-store.ts";
+import {
+  DEFAULT_TTL_HOURS,
+  LEDGER_FILE,
+  FreshnessLedger,
+  assessFreshness,
+  type ArtifactFreshness,
+  type FreshnessReport,
+  type FreshnessTtls,
+} from "./freshness.ts";
+import { PAGE_INDEX_FILE, PAGES_DIR, PageCache } from "./page-cache.ts";
+import { ReferenceManager } from "./reference-manager.ts";
+import { VALIDATORS_FILE } from "./http-validator-store.ts";
 
 export interface CacheMetadata {
   cachedAt: string;
@@ -16,14 +55,121 @@ interface ReleasesCacheData {
   _metadata: CacheMetadata;
 }
 
+interface CatalogCacheData extends EntityCatalog {
+  _metadata: CacheMetadata;
+}
+
+export type { QuarantineReport };
+
+export interface CacheManagerOptions {
+  /** Called whenever a corrupt cache file is quarantined. */
+  onQuarantine?: (report: QuarantineReport) => void;
+  /** How many snapshots of docs.json and releases.json to keep. */
+  retention?: RetentionPolicy;
+  /** Overrides the default time to live of each kind of artifact. */
+  ttlHours?: Partial<FreshnessTtls>;
+  /** Newest releases kept by upsertReleases; unbounded when unset. */
+  maxReleases?: number;
+}
+
+/** Parts of the cache that can be inspected and cleared on their own. */
+export type CacheArtifact = "docs" | "releases" | "catalogs" | "pages" | "snapshots";
+
+export const CACHE_ARTIFACTS: CacheArtifact[] = [
+  "docs",
+  "releases",
+  "catalogs",
+  "pages",
+  "snapshots",
+];
+
+export interface ArtifactStatus {
+  artifact: CacheArtifact | "references";
+  /** Path relative to the cache directory, or to the references directory. */
+  name: string;
+  exists: boolean;
+  bytes: number;
+  /** sha256 of the file content. */
+  hash: string | null;
+  /** `_metadata.version` of JSON cache files. */
+  version?: string;
+  /** When the file was last written. */
+  updatedAt: Date | null;
+  /** Set for artifacts with a time to live. */
+  freshness?: ArtifactFreshness;
+}
+
+export interface VerifyIssue {
+  artifact: CacheArtifact;
+  name: string;
+  message: string;
+}
+
+export interface UpdatePlanOptions {
+  /** Refetch everything regardless of time to live, e.g. for --force. */
+  force?: boolean;
+  skipDocs?: boolean;
+  skipReleases?: boolean;
+}
+
+/** What an update run should fetch, decided from the state of the cache. */
+export interface UpdatePlan {
+  /** Fetch in full: forced, or a cache was incompatible or quarantined. */
+  refresh: boolean;
+  fetchDocs: boolean;
+  fetchReleases: boolean;
+  /** Revalidate with stored validators; only with a cached copy to fall back on. */
+  conditional: boolean;
+  /** Caches from an unsupported version, which are refetched. */
+  incompatible: CacheIncompatibleError[];
+  freshness: FreshnessReport;
+}
+
+export interface GcResult {
+  snapshots: SnapshotInfo[];
+  /** Slugs of orphaned page files and index entries removed. */
+  pages: string[];
+}
+
+interface CacheFile {
+  artifact: CacheArtifact;
+  kind: CacheKind;
+  path: string;
+}
+
 const DEFAULT_MAX_AGE_HOURS = 24;
-const CACHE_VERSION = "1.0.0";
+
+// Order and titles of the change groups in releases.md
+const CHANGE_GROUPS: Array<[ReleaseChangeType, string]> = [
+  ["breaking", "Breaking Changes"],
+  ["security", "Security"],
+  ["added", "Added"],
+  ["changed", "Changed"],
+  ["deprecated", "Deprecated"],
+  ["removed", "Removed"],
+  ["fixed", "Fixed"],
+];
 
 export class CacheManager {
+  private snapshots: SnapshotStore;
+  private ledger: FreshnessLedger;
+  private releaseNotes = new ReleaseNotesParser();
+  private quarantinedCount = 0;
+
   constructor(
     private cacheDir: string,
-    private referencesDir: string
-  ) {}
+    private referencesDir: string,
+    private options: CacheManagerOptions = {}
+  ) {
+    // slice(0, NaN) would empty the whole release history
+    const { maxReleases } = options;
+    if (maxReleases !== undefined && !(Number.isInteger(maxReleases) && maxReleases >= 0)) {
+      throw new Error(`maxReleases must be a non-negative integer, got ${maxReleases}`);
+    }
+
+    this.snapshots = new SnapshotStore(cacheDir, options.retention);
+    this.ledger = new FreshnessLedger(cacheDir);
+  }
 
   async writeDocsCache(content: ParsedContent): Promise<void> {
     await mkdir(this.cacheDir, { recursive: true });
@@ -37,54 +183,310 @@ export class CacheManager {
       },
     };
 
-    const cachePath = join(this.cacheDir, "docs.json");
-    await writeFile(cachePath, JSON.stringify(cacheData, null, 2));
+    const cachePath = this.docsCachePath(content.source);
+    const json = JSON.stringify(cacheData, null, 2);
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFileAtomic(cachePath, json);
+
+    // Only the official docs are snapshotted
+    if (content.source === DEFAULT_DOC_SOURCE_ID) {
+      await this.saveSnapshot("docs", json);
+      await this.ledger.markChecked("docs");
+    }
   }
 
   async writeReleasesCache(releases: ParsedRelease[]): Promise<void> {
     await mkdir(this.cacheDir, { recursive: true });
 
     const cacheData: ReleasesCacheData = {
-      releases,
+      releases: sortReleases(releases),
       _metadata: {
         cachedAt: new Date().toISOString(),
         version: CACHE_VERSION,
       },
     };
 
-    const cachePath = join(this.cacheDir, "releases.json");
-    await writeFile(cachePath, JSON.stringify(cacheData, null, 2));
+    const json = JSON.stringify(cacheData, null, 2);
+    await writeFileAtomic(join(this.cacheDir, "releases.json"), json);
+    await this.saveSnapshot("releases", json);
+    await this.ledger.markChecked("releases");
   }
 
-  async readDocsCache(): Promise<ParsedContent | null> {
-    const cachePath = join(this.cacheDir, "docs.json");
+  /**
+   * Merges `releases` into the cached history by version and writes it.
+   * A release already cached is updated with the fetched fields, so edited
+   * notes replace the old ones while fields missing from the fetch are kept.
+   * Returns the merged history, newest first.
+   */
+  async upsertReleases(releases: ParsedRelease[]): Promise<ParsedRelease[]> {
+    // A history from an unsupported version is replaced rather than merged
+    const previous = await this.readReleasesCache().catch((error) => {
+      if (error instanceof CacheIncompatibleError) {
+        return null;
+      }
+      throw error;
+    });
 
-    if (!(await exists(cachePath))) {
-      return null;
+    const byVersion = new Map((previous ?? []).map((release) => [release.version, release]));
+    for (const release of releases) {
+      byVersion.set(release.version, { ...byVersion.get(release.version), ...release });
     }
 
-    const data = JSON.parse(await readFile(cachePath, "utf-8")) as DocsCacheData;
-    const { _metadata, ...content } = data;
+    const merged = sortReleases([...byVersion.values()]);
+    const kept =
+      this.options.maxReleases === undefined ? merged : merged.slice(0, this.options.maxReleases);
+
+    await this.writeReleasesCache(kept);
+    return kept;
+  }
+
+  /** Records that the docs or releases were confirmed unchanged, e.g. by a 304. */
+  async markChecked(artifact: "docs" | "releases", checkedAt: Date = new Date()): Promise<void> {
+    await this.ledger.markChecked(artifact, checkedAt);
+  }
+
+  /**
+   * Reports, for the docs, the releases, every cached page and every
+   * generated reference, when it was last refreshed and whether its time
+   * to live has run out. Missing artifacts are expired.
+   */
+  async getFreshness(now: Date = new Date()): Promise<FreshnessReport> {
+    const ttl = { ...DEFAULT_TTL_HOURS, ...this.options.ttlHours };
+
+    // Caches written before the ledger existed fall back to their cachedAt;
+    // incompatible or corrupt caches need a refresh and so count as expired
+    const checkedAt = async (artifact: "docs" | "releases", cachePath: string) => {
+      if (!(await exists(cachePath))) {
+        return null;
+      }
+
+      const data = await this.loadCacheFile<{ _metadata: CacheMetadata }>(
+        artifact,
+        cachePath
+      ).catch((error) => {
+        if (error instanceof CacheIncompatibleError || error instanceof CacheValidationError) {
+          return null;
+        }
+        throw error;
+      });
+      if (!data) {
+        return null;
+      }
+      return (await this.ledger.getCheckedAt(artifact)) ?? new Date(data._metadata.cachedAt);
+    };
+
+    const pages = await this.pageCache().listEntries();
+    const refManager = new ReferenceManager(this.referencesDir);
+    const references: ArtifactFreshness[] = [];
+    const paths = (await exists(this.referencesDir)) ? await refManager.listReferences() : [];
+    for (const path of paths) {
+      const updatedAt = (await refManager.readReference(path))?.lastUpdated ?? null;
+      references.push(assessFreshness("references", path, updatedAt, ttl.references, now));
+    }
 
     return {
-      ...content,
-      fetchedAt: new Date(content.fetchedAt),
+      docs: assessFreshness(
+        "docs",
+        "docs",
+        await checkedAt("docs", this.docsCachePath(DEFAULT_DOC_SOURCE_ID)),
+        ttl.docs,
+        now
+      ),
+      releases: assessFreshness(
+        "releases",
+        "releases",
+        await checkedAt("releases", join(this.cacheDir, "releases.json")),
+        ttl.releases,
+        now
+      ),
+      pages: pages.map((page) =>
+        assessFreshness("pages", page.slug, page.checkedAt, ttl.pages, now)
+      ),
+      references,
     };
   }
 
-  async readReleasesCache(): Promise<ParsedRelease[] | null> {
-    const cachePath = join(this.cacheDir, "releases.json");
+  /**
+   * Decides which of the docs and releases an update run fetches. Each is
+   * fetched once its time to live has run out, and both in full when a
+   * cache is incompatible or corrupt.
+   */
+  async planUpdate(options: UpdatePlanOptions = {}, now: Date = new Date()): Promise<UpdatePlan> {
+    const quarantinedBefore = this.quarantinedCount;
+    const incompatible = await this.findIncompatibleCaches();
+    const refresh =
+      !!options.force || incompatible.length > 0 || this.quarantinedCount > quarantinedBefore;
+
+    const freshness = await this.getFreshness(now);
+    const fetchDocs = !options.skipDocs && (refresh || freshness.docs.expired);
+    const fetchReleases = !options.skipReleases && (refresh || freshness.releases.expired);
+
+    const conditional =
+      !refresh &&
+      (!fetchDocs || (await this.readDocsCache()) !== null) &&
+      (!fetchReleases || (await this.readReleasesCache()) !== null);
+
+    return { refresh, fetchDocs, fetchReleases, conditional, incompatible, freshness };
+  }
 
-    if (!(await exists(cachePath))) {
+  /**
+   * Categories (reference subdirectories) with no generated references or
+   * at least one past its time to live.
+   */
+  async expiredReferenceCategories<T extends string>(
+    categories: readonly T[],
+    now: Date = new Date()
+  ): Promise<T[]> {
+    const { references } = await this.getFreshness(now);
+
+    return categories.filter((category) => {
+      const refs = references.filter((ref) => ref.name.startsWith(`${category}/`));
+      return refs.length === 0 || refs.some((ref) => ref.expired);
+    });
+  }
+
+  /**
+   * Merges `catalog` into `catalogs.json`, replacing entries from the pages
+   * it was built from and keeping entries from pages not refetched.
+   */
+  async writeCatalogs(catalog: EntityCatalog): Promise<EntityCatalog> {
+    await mkdir(this.cacheDir, { recursive: true });
+
+    // Catalogs from an unsupported version are replaced rather than merged
+    const previous = await this.readCatalogs().catch((error) => {
+      if (error instanceof CacheIncompatibleError) {
+        return null;
+      }
+      throw error;
+    });
+    const merged = previous ? mergeCatalogs(previous, catalog) : catalog;
+    const cacheData: CatalogCacheData = {
+      ...merged,
+      _metadata: {
+        cachedAt: new Date().toISOString(),
+        version: CACHE_VERSION,
+      },
+    };
+
+    await writeFileAtomic(join(this.cacheDir, "catalogs.json"), JSON.stringify(cacheData, null, 2));
+    return merged;
+  }
+
+  /**
+   * Throws CacheIncompatibleError when the cache cannot be migrated.
+   */
+  async readCatalogs(): Promise<EntityCatalog | null> {
+    const data = await this.readCacheFile<CatalogCacheData>(
+      "catalogs",
+      join(this.cacheDir, "catalogs.json")
+    );
+    if (!data) {
       return null;
     }
 
-    const data = JSON.parse(await readFile(cachePath, "utf-8")) as ReleasesCacheData;
+    const { _metadata, ...catalog } = data;
+    return catalog;
+  }
+
+  /**
+   * Throws CacheIncompatibleError when the cache cannot be migrated.
+   */
+  async readDocsCache(sourceId: string = DEFAULT_DOC_SOURCE_ID): Promise<ParsedContent | null> {
+    const data = await this.readCacheFile<DocsCacheData>("docs", this.docsCachePath(sourceId));
+    return data && this.reviveDocs(data);
+  }
 
-    return data.releases.map((release) => ({
-      ...release,
-      publishedAt: new Date(release.publishedAt),
-    }));
+  /**
+   * Throws CacheIncompatibleError when the cache cannot be migrated.
+   */
+  async readReleasesCache(): Promise<ParsedRelease[] | null> {
+    const data = await this.readCacheFile<ReleasesCacheData>(
+      "releases",
+      join(this.cacheDir, "releases.json")
+    );
+    return data && this.reviveReleases(data);
+  }
+
+  /** Snapshots of docs.json or releases.json, newest first. */
+  async listSnapshots(kind: SnapshotKind): Promise<SnapshotInfo[]> {
+    return this.snapshots.list(kind);
+  }
+
+  /**
+   * Reads the official docs as they were in snapshot `id`; null when there
+   * is no such snapshot.
+   */
+  async readDocsSnapshot(id: string): Promise<ParsedContent | null> {
+    const snapshot = await this.snapshots.get("docs", id);
+    const data = snapshot && (await this.readCacheFile<DocsCacheData>("docs", snapshot.path));
+    return data && this.reviveDocs(data);
+  }
+
+  /**
+   * Reads the releases as they were in snapshot `id`; null when there is no
+   * such snapshot.
+   */
+  async readReleasesSnapshot(id: string): Promise<ParsedRelease[] | null> {
+    const snapshot = await this.snapshots.get("releases", id);
+    const data =
+      snapshot && (await this.readCacheFile<ReleasesCacheData>("releases", snapshot.path));
+    return data && this.reviveReleases(data);
+  }
+
+  /** Applies the retention policy to every kind of snapshot. */
+  async pruneSnapshots(now: Date = new Date()): Promise<SnapshotInfo[]> {
+    const pruned: SnapshotInfo[] = [];
+    for (const kind of SNAPSHOT_KINDS) {
+      pruned.push(...(await this.snapshots.prune(kind, now)));
+    }
+    return pruned;
+  }
+
+  /**
+   * Lists cache files that cannot be migrated to the current version.
+   * These need a forced refresh before they can be read.
+   */
+  async findIncompatibleCaches(): Promise<CacheIncompatibleError[]> {
+    const files: Array<[CacheKind, string]> = [
+      ["docs", this.docsCachePath(DEFAULT_DOC_SOURCE_ID)],
+      ["releases", join(this.cacheDir, "releases.json")],
+      ["catalogs", join(this.cacheDir, "catalogs.json")],
+    ];
+    const errors: CacheIncompatibleError[] = [];
+
+    for (const [kind, cachePath] of files) {
+      try {
+        await this.readCacheFile(kind, cachePath);
+      } catch (error) {
+        if (!(error instanceof CacheIncompatibleError)) {
+          throw error;
+        }
+        errors.push(error);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Reads cached releases matching a semver range such as `>=1.0.30 <1.1`.
+   * Releases with non-semver tags never match.
+   */
+  async readReleasesInRange(range: string): Promise<ParsedRelease[]> {
+    const versionRange = parseRange(range);
+    const releases = (await this.readReleasesCache()) ?? [];
+
+    return releases.filter((release) => {
+      const semver = release.semver ?? parseSemVer(release.version);
+      return semver !== null && satisfies(semver, versionRange);
+    });
+  }
+
+  /**
+   * Reads cached releases from `from` up to and including `to`, newest first.
+   */
+  async readReleasesBetween(from: string, to: string): Promise<ParsedRelease[]> {
+    return this.readReleasesInRange(`>=${from} <=${to}`);
   }
 
   async generateReferences(
@@ -96,12 +498,19 @@ export class CacheManager {
     // Generate releases reference only
     // (Progressive disclosure refs are generated separately via --regenerate-refs)
     const releasesMarkdown = this.generateReleasesMarkdown(releases);
-    await writeFile(join(this.referencesDir, "releases.md"), releasesMarkdown);
+    await writeFileAtomic(join(this.referencesDir, "releases.md"), releasesMarkdown);
   }
 
+  /**
+   * True when the docs cache is younger than `maxAgeHours` and every cache
+   * file is readable by this version. See getFreshness for per-artifact expiry.
+   */
   async isCacheValid(maxAgeHours: number = DEFAULT_MAX_AGE_HOURS): Promise<boolean> {
-    const metadata = await this.getCacheMetadata();
+    if ((await this.findIncompatibleCaches()).length > 0) {
+      return false;
+    }
 
+    const metadata = await this.getCacheMetadata();
     if (!metadata) {
       return false;
     }
@@ -115,14 +524,317 @@ export class CacheManager {
   }
 
   async getCacheMetadata(): Promise<CacheMetadata | null> {
-    const cachePath = join(this.cacheDir, "docs.json");
+    const data = await this.readCacheFile<DocsCacheData>(
+      "docs",
+      this.docsCachePath(DEFAULT_DOC_SOURCE_ID)
+    );
+    return data?._metadata ?? null;
+  }
+
+  /**
+   * Size, version, content hash and freshness of every cache file, cached
+   * page and generated reference. Docs and releases are listed even when
+   * missing.
+   */
+  async getStatus(now: Date = new Date()): Promise<ArtifactStatus[]> {
+    const freshness = await this.getFreshness(now);
+    const statuses: ArtifactStatus[] = [];
+
+    for (const file of await this.listCacheFiles()) {
+      const fileFreshness =
+        file.path === this.docsCachePath(DEFAULT_DOC_SOURCE_ID)
+          ? freshness.docs
+          : file.artifact === "releases"
+            ? freshness.releases
+            : undefined;
+      statuses.push(await this.fileStatus(file.artifact, this.cacheDir, file.path, fileFreshness));
+    }
+
+    for (const page of freshness.pages) {
+      const pagePath = join(this.cacheDir, PAGES_DIR, `${page.name}.md`);
+      statuses.push(await this.fileStatus("pages", this.cacheDir, pagePath, page));
+    }
+
+    for (const ref of freshness.references) {
+      const refPath = join(this.referencesDir, ref.name);
+      statuses.push(await this.fileStatus("references", this.referencesDir, refPath, ref));
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Checks every cache file and snapshot against its schema and every cached
+   * page against its recorded hash, without quarantining anything.
+   */
+  async verify(): Promise<VerifyIssue[]> {
+    const issues: VerifyIssue[] = [];
+
+    for (const file of await this.listCacheFiles()) {
+      if (!(await exists(file.path))) {
+        continue;
+      }
+
+      const name = relative(this.cacheDir, file.path);
+      try {
+        await this.loadCacheFile(file.kind, file.path);
+      } catch (error) {
+        if (error instanceof CacheValidationError) {
+          for (const { path, message } of error.issues) {
+            issues.push({ artifact: file.artifact, name, message: `${path}: ${message}` });
+          }
+        } else if (error instanceof CacheIncompatibleError) {
+          issues.push({ artifact: file.artifact, name, message: error.message });
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    // Pages cannot be checked against an index that does not load
+    const indexPath = join(this.cacheDir, PAGES_DIR, PAGE_INDEX_FILE);
+    try {
+      if (await exists(indexPath)) {
+        await loadJsonFile(indexPath, validatePageIndex);
+      }
+      for (const { slug, problem } of await this.pageCache().verify()) {
+        issues.push({ artifact: "pages", name: join(PAGES_DIR, `${slug}.md`), message: problem });
+      }
+    } catch (error) {
+      if (!(error instanceof CacheValidationError)) {
+        throw error;
+      }
+      const name = relative(this.cacheDir, indexPath);
+      for (const { path, message } of error.issues) {
+        issues.push({ artifact: "pages", name, message: `${path}: ${message}` });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Deletes one artifact, or everything in the cache directory including the
+   * HTTP validators and the freshness ledger. Returns the paths removed.
+   */
+  async clear(artifact?: CacheArtifact): Promise<string[]> {
+    const paths: Record<CacheArtifact, string[]> = {
+      docs: [this.docsCachePath(DEFAULT_DOC_SOURCE_ID), join(this.cacheDir, "sources")],
+      releases: [join(this.cacheDir, "releases.json")],
+      catalogs: [join(this.cacheDir, "catalogs.json")],
+      pages: [join(this.cacheDir, PAGES_DIR)],
+      snapshots: [join(this.cacheDir, SNAPSHOTS_DIR)],
+    };
+    const targets = artifact
+      ? paths[artifact]
+      : [
+          ...CACHE_ARTIFACTS.flatMap((name) => paths[name]),
+          join(this.cacheDir, VALIDATORS_FILE),
+          join(this.cacheDir, LEDGER_FILE),
+        ];
+
+    const removed: string[] = [];
+    for (const path of targets) {
+      if (await exists(path)) {
+        await rm(path, { recursive: true, force: true });
+        removed.push(path);
+      }
+    }
+
+    return removed;
+  }
+
+  /** Prunes snapshots by the retention policy and removes orphaned pages. */
+  async gc(now: Date = new Date()): Promise<GcResult> {
+    return {
+      snapshots: await this.pruneSnapshots(now),
+      pages: await this.pageCache().removeOrphans(),
+    };
+  }
+
+  /** JSON cache files: official docs, additional sources, releases, catalogs and snapshots. */
+  private async listCacheFiles(): Promise<CacheFile[]> {
+    const files: CacheFile[] = [
+      { artifact: "docs", kind: "docs", path: this.docsCachePath(DEFAULT_DOC_SOURCE_ID) },
+    ];
+
+    const sourcesDir = join(this.cacheDir, "sources");
+    if (await exists(sourcesDir)) {
+      for (const name of (await readdir(sourcesDir)).filter((file) => file.endsWith(".json"))) {
+        files.push({ artifact: "docs", kind: "docs", path: join(sourcesDir, name) });
+      }
+    }
 
+    files.push(
+      { artifact: "releases", kind: "releases", path: join(this.cacheDir, "releases.json") },
+      { artifact: "catalogs", kind: "catalogs", path: join(this.cacheDir, "catalogs.json") }
+    );
+
+    for (const kind of SNAPSHOT_KINDS) {
+      for (const snapshot of await this.snapshots.list(kind)) {
+        files.push({ artifact: "snapshots", kind, path: snapshot.path });
+      }
+    }
+
+    return files;
+  }
+
+  private async fileStatus(
+    artifact: ArtifactStatus["artifact"],
+    root: string,
+    path: string,
+    freshness?: ArtifactFreshness
+  ): Promise<ArtifactStatus> {
+    const name = relative(root, path);
+    if (!(await exists(path))) {
+      return { artifact, name, exists: false, bytes: 0, hash: null, updatedAt: null, freshness };
+    }
+
+    const content = await readFile(path, "utf-8");
+    return {
+      artifact,
+      name,
+      exists: true,
+      bytes: Buffer.byteLength(content),
+      hash: createHash("sha256").update(content).digest("hex"),
+      version: path.endsWith(".json") ? this.readVersion(content) : undefined,
+      updatedAt: (await stat(path)).mtime,
+      freshness,
+    };
+  }
+
+  /** `_metadata.version` without migrating or validating; undefined when unreadable. */
+  private readVersion(content: string): string | undefined {
+    try {
+      const version = JSON.parse(content)?._metadata?.version;
+      return typeof version === "string" ? version : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads a cache file, migrates it to CACHE_VERSION and validates it.
+   * Returns null when the file is missing, or when it is corrupt, in which
+   * case it is quarantined.
+   */
+  private async readCacheFile<T>(kind: CacheKind, cachePath: string): Promise<T | null> {
     if (!(await exists(cachePath))) {
       return null;
     }
 
-    const data = JSON.parse(await readFile(cachePath, "utf-8")) as DocsCacheData;
-    return data._metadata;
+    try {
+      return await this.loadCacheFile<T>(kind, cachePath);
+    } catch (error) {
+      if (!(error instanceof CacheValidationError)) {
+        throw error;
+      }
+      await this.quarantine(cachePath, error);
+      return null;
+    }
+  }
+
+  /**
+   * Parses, migrates and validates a cache file. Throws CacheValidationError
+   * when it is corrupt and CacheIncompatibleError when it cannot be migrated.
+   */
+  private async loadCacheFile<T>(kind: CacheKind, cachePath: string): Promise<T> {
+    const content = await readFile(cachePath, "utf-8");
+
+    try {
+      const data: unknown = JSON.parse(content);
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new CacheValidationError(cachePath, [{ path: "$", message: "expected object" }]);
+      }
+
+      const migrated = migrateCache(kind, data as CacheData, cachePath);
+      const issues = validateCache(kind, migrated);
+      if (issues.length > 0) {
+        throw new CacheValidationError(cachePath, issues);
+      }
+
+      return migrated as T;
+    } catch (error) {
+      if (error instanceof CacheIncompatibleError || error instanceof CacheValidationError) {
+        throw error;
+      }
+
+      // Syntax errors and failed migrations become a single issue at the root
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CacheValidationError(cachePath, [{ path: "$", message }]);
+    }
+  }
+
+  /**
+   * Snapshots a cache file unless its content, ignoring `_metadata`, is the
+   * same as the newest snapshot's, so unchanged refreshes add no copies;
+   * existing snapshots are still pruned.
+   */
+  private async saveSnapshot(kind: SnapshotKind, json: string): Promise<void> {
+    const [newest] = await this.snapshots.list(kind);
+    const hash = this.contentHash(json);
+    if (newest && hash !== null) {
+      const previous = await readFile(newest.path, "utf-8").catch(() => null);
+      if (previous !== null && this.contentHash(previous) === hash) {
+        await this.snapshots.prune(kind);
+        return;
+      }
+    }
+
+    await this.snapshots.save(kind, json);
+  }
+
+  /** sha256 of a cache file's JSON without its `_metadata`; null when it does not parse. */
+  private contentHash(json: string): string | null {
+    try {
+      const { _metadata, ...content } = JSON.parse(json);
+      return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+    } catch {
+      return null;
+    }
+  }
+
+  /** Quarantines a corrupt cache file and counts it towards a full refresh. */
+  private async quarantine(cachePath: string, error: CacheValidationError): Promise<void> {
+    await quarantineFile(cachePath, error, this.options.onQuarantine);
+    this.quarantinedCount++;
+  }
+
+  /** A page cache that reports a quarantined index like any other cache file. */
+  private pageCache(): PageCache {
+    return new PageCache(this.cacheDir, { onQuarantine: this.options.onQuarantine });
+  }
+
+  private reviveDocs(data: DocsCacheData): ParsedContent {
+    const { _metadata, ...content } = data;
+    return {
+      ...content,
+      fetchedAt: new Date(content.fetchedAt),
+    };
+  }
+
+  private reviveReleases(data: ReleasesCacheData): ParsedRelease[] {
+    // Older caches may still be in GitHub API order
+    return sortReleases(
+      data.releases.map((release) => ({
+        ...release,
+        publishedAt: new Date(release.publishedAt),
+      }))
+    );
+  }
+
+  /**
+   * Each source gets its own cache slot; the default source keeps docs.json.
+   */
+  private docsCachePath(sourceId: string): string {
+    if (sourceId === DEFAULT_DOC_SOURCE_ID) {
+      return join(this.cacheDir, "docs.json");
+    }
+    if (!DOC_SOURCE_ID_PATTERN.test(sourceId)) {
+      throw new Error(`Invalid documentation source id: ${sourceId}`);
+    }
+
+    return join(this.cacheDir, "sources", `${sourceId}.json`);
   }
 
   private generateReleasesMarkdown(releases: ParsedRelease[]): string {
@@ -140,20 +852,34 @@ export class CacheManager {
       lines.push(`**URL:** ${release.url}`);
       lines.push("");
 
-      if (release.features.length > 0) {
-        lines.push("### Features");
-        lines.push("");
-        for (const feature of release.features) {
-          lines.push(`- **${feature.name}**: ${feature.description || ""}`);
+      // Categorised changes replace the flat lists; older caches lack them
+      if (release.changes && release.changes.length > 0) {
+        this.pushChangeGroups(lines, release.changes);
+        this.pushReleaseProse(lines, release.rawBody);
+      } else {
+        if (release.features.length > 0) {
+          lines.push("### Features");
+          lines.push("");
+          for (const feature of release.features) {
+            lines.push(`- **${feature.name}**: ${feature.description || ""}`);
+          }
+          lines.push("");
         }
-        lines.push("");
-      }
 
-      if (release.rawBody) {
-        lines.push("### Release Notes");
-        lines.push("");
-        lines.push(release.rawBody);
-        lines.push("");
+        // The CHANGELOG is the complete list; fall back to the GitHub body
+        if (release.changelog && release.changelog.length > 0) {
+          lines.push("### Changelog");
+          lines.push("");
+          for (const item of release.changelog) {
+            lines.push(`- ${item}`);
+          }
+          lines.push("");
+        } else if (release.rawBody) {
+          lines.push("### Release Notes");
+          lines.push("");
+          lines.push(release.rawBody);
+          lines.push("");
+        }
       }
 
       lines.push("---");
@@ -162,4 +888,45 @@ export class CacheManager {
 
     return lines.join("\n");
   }
+
+  private pushChangeGroups(lines: string[], changes: ReleaseChange[]): void {
+    // Nested bullets stay under their top-level bullet, whatever their own type
+    const groups = new Map<ReleaseChangeType, ReleaseChange[]>();
+    let groupType: ReleaseChangeType | null = null;
+    for (const change of changes) {
+      if (!change.depth || groupType === null) {
+        groupType = change.type;
+      }
+      groups.set(groupType, [...(groups.get(groupType) ?? []), change]);
+    }
+
+    for (const [type, title] of CHANGE_GROUPS) {
+      const group = groups.get(type);
+      if (!group) {
+        continue;
+      }
+
+      lines.push(`### ${title}`);
+      lines.push("");
+      for (const change of group) {
+        lines.push(`${"  ".repeat(change.depth ?? 0)}- ${change.text}`);
+      }
+      lines.push("");
+    }
+  }
+
+  /** Keeps the release body's non-bullet paragraphs, which the changes omit. */
+  private pushReleaseProse(lines: string[], rawBody: string): void {
+    const prose = this.releaseNotes.prose(rawBody);
+    if (prose.length === 0) {
+      return;
+    }
+
+    lines.push("### Notes");
+    lines.push("");
+    for (const paragraph of prose) {
+      lines.push(paragraph);
+      lines.push("");
+    }
+  }
 }
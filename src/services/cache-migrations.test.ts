@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import {
+  CACHE_MIGRATIONS,
+  CACHE_VERSION,
+  CacheIncompatibleError,
+  migrateCache,
+  type CacheMigration,
+} from "./cache-migrations.ts";
+
+describe("migrateCache", () => {
+  const path = "/tmp/cache/docs.json";
+
+  it("should leave current caches unchanged", () => {
+    const data = { title: "Docs", _metadata: { cachedAt: "", version: CACHE_VERSION } };
+
+    expect(migrateCache("docs", data, path)).toBe(data);
+  });
+
+  it("should apply each migration in the chain for the cache kind", () => {
+    const migrations: CacheMigration[] = [
+      { from: "1.0.0", to: "1.1.0", migrate: { docs: (data) => ({ ...data, a: 1 }) } },
+      { from: "1.1.0", to: "2.0.0", migrate: { releases: (data) => ({ ...data, b: 2 }) } },
+      { from: "2.0.0", to: "3.0.0", migrate: { docs: (data) => ({ ...data, c: 3 }) } },
+    ];
+    const data = { _metadata: { cachedAt: "", version: "1.0.0" } };
+
+    const migrated = migrateCache("docs", data, path, migrations, "3.0.0");
+
+    expect(migrated).toEqual({ ...data, a: 1, c: 3 });
+  });
+
+  it("should treat caches without metadata as version 1.0.0", () => {
+    const migrated = migrateCache("docs", { rawText: "- [Hooks](https://x.dev/hooks.md)" }, path);
+
+    expect(migrated.index).toEqual([{ title: "Hooks", url: "https://x.dev/hooks.md", slug: "hooks" }]);
+  });
+
+  it("should reject versions newer than the current one", () => {
+    const data = { _metadata: { cachedAt: "", version: "3.0.0" } };
+
+    expect(() => migrateCache("docs", data, path)).toThrow(
+      `Cache incompatible, refresh required: ${path} has version 3.0.0 (expected ${CACHE_VERSION})`
+    );
+  });
+
+  it("should reject versions without a migration path", () => {
+    const data = { _metadata: { cachedAt: "", version: "0.9.0" } };
+
+    expect(() => migrateCache("releases", data, path)).toThrow(CacheIncompatibleError);
+  });
+
+  it("should chain every migration up to the current version", () => {
+    const last = CACHE_MIGRATIONS[CACHE_MIGRATIONS.length - 1]!;
+
+    expect(last.to).toBe(CACHE_VERSION);
+    for (let i = 1; i < CACHE_MIGRATIONS.length; i++) {
+      expect(CACHE_MIGRATIONS[i]!.from).toBe(CACHE_MIGRATIONS[i - 1]!.to);
+    }
+  });
+});
+
+describe("CacheIncompatibleError", () => {
+  it("should keep the cache path and versions", () => {
+    const error = new CacheIncompatibleError("/tmp/cache/releases.json", "0.1.0");
+
+    expect(error.name).toBe("CacheIncompatibleError");
+    expect(error.cachePath).toBe("/tmp/cache/releases.json");
+    expect(error.expectedVersion).toBe(CACHE_VERSION);
+  });
+});
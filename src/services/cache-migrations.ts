@@ -0,0 +1,99 @@
+import { DocsParser } from "./docs-parser.ts";
+import { ReleaseNotesParser } from "./release-notes-parser.ts";
+import { compareSemVer, formatSemVer, parseSemVer } from "./semver.ts";
+
+/** Version written into `_metadata.version` of every cache file. */
+export const CACHE_VERSION = "2.0.0";
+
+/** Version assumed for cache files written before `_metadata` existed. */
+const LEGACY_CACHE_VERSION = "1.0.0";
+
+export type CacheKind = "docs" | "releases" | "catalogs";
+
+/** Cache file contents as read from disk, before dates are revived. */
+export type CacheData = Record<string, unknown>;
+
+export interface CacheMigration {
+  from: string;
+  to: string;
+  /** Upgrades one kind of cache file; kinds without an entry are unchanged. */
+  migrate: Partial<Record<CacheKind, (data: CacheData) => CacheData>>;
+}
+
+export class CacheIncompatibleError extends Error {
+  constructor(
+    public cachePath: string,
+    public version: string,
+    public expectedVersion: string = CACHE_VERSION
+  ) {
+    super(
+      `Cache incompatible, refresh required: ${cachePath} has version ${version} ` +
+        `(expected ${expectedVersion})`
+    );
+    this.name = "CacheIncompatibleError";
+  }
+}
+
+/**
+ * Upgrades from the oldest supported version to CACHE_VERSION, in order.
+ * Add an entry here whenever a cached type changes shape.
+ */
+export const CACHE_MIGRATIONS: CacheMigration[] = [
+  {
+    // 2.0.0 added the llms.txt page index, categorised changes and parsed versions
+    from: "1.0.0",
+    to: "2.0.0",
+    migrate: {
+      docs: (data) => ({
+        ...data,
+        index: data.index ?? new DocsParser().parseIndex(String(data.rawText ?? "")),
+      }),
+      releases: (data) => {
+        const notes = new ReleaseNotesParser();
+        const releases = (data.releases as CacheData[]).map((release) => ({
+          ...release,
+          semver: release.semver ?? parseSemVer(String(release.version)) ?? undefined,
+          changes: release.changes ?? notes.parse(String(release.rawBody ?? "")),
+        }));
+        return { ...data, releases };
+      },
+    },
+  },
+];
+
+/**
+ * Brings a cache file up to CACHE_VERSION by applying each migration in
+ * the chain. Throws CacheIncompatibleError for versions newer than this
+ * code understands or with no migration path.
+ */
+export function migrateCache(
+  kind: CacheKind,
+  data: CacheData,
+  cachePath: string,
+  migrations: CacheMigration[] = CACHE_MIGRATIONS,
+  targetVersion: string = CACHE_VERSION
+): CacheData {
+  const metadata = data._metadata as { version?: unknown } | undefined;
+  const version = typeof metadata?.version === "string" ? metadata.version : LEGACY_CACHE_VERSION;
+
+  const current = parseSemVer(version);
+  const target = parseSemVer(targetVersion)!;
+  if (!current || compareSemVer(current, target) > 0) {
+    throw new CacheIncompatibleError(cachePath, version, targetVersion);
+  }
+
+  let migrated = data;
+  let at = formatSemVer(current);
+
+  while (at !== formatSemVer(target)) {
+    const step = migrations.find((migration) => migration.from === at);
+    if (!step) {
+      throw new CacheIncompatibleError(cachePath, version, targetVersion);
+    }
+
+    migrated = step.migrate[kind]?.(migrated) ?? migrated;
+    at = step.to;
+  }
+
+  return migrated;
+}
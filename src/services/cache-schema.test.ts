@@ -0,0 +1,116 @@
+import { describe, it, expect } from "bun:test";
+import {
+  CacheValidationError,
+  validateCache,
+  validateHttpValidators,
+  validatePageIndex,
+} from "./cache-schema.ts";
+import { CACHE_VERSION } from "./cache-migrations.ts";
+
+describe("validateCache", () => {
+  const metadata = { cachedAt: "2024-01-15T12:00:00.000Z", version: CACHE_VERSION };
+  const release = {
+    version: "v1.0.0",
+    name: "Release",
+    publishedAt: "2024-01-15T00:00:00.000Z",
+    url: "https://example.com",
+    features: [{ name: "Feature" }],
+    rawBody: "- Added a thing",
+    changes: [{ type: "added", text: "Added a thing" }],
+  };
+
+  it("should accept a valid releases cache", () => {
+    expect(validateCache("releases", { releases: [release], _metadata: metadata })).toEqual([]);
+  });
+
+  it("should report the path of each mismatch", () => {
+    const issues = validateCache("releases", {
+      releases: [release, { ...release, publishedAt: "not a date", features: {} }],
+      _metadata: metadata,
+    });
+
+    expect(issues).toEqual([
+      { path: "$.releases[1].publishedAt", message: 'expected ISO date string, got "not a date"' },
+      { path: "$.releases[1].features", message: "expected array, got object" },
+    ]);
+  });
+
+  it("should reject unknown change types", () => {
+    const issues = validateCache("releases", {
+      releases: [{ ...release, changes: [{ type: "improved", text: "Faster" }] }],
+      _metadata: metadata,
+    });
+
+    expect(issues[0]!.path).toBe("$.releases[0].changes[0].type");
+  });
+
+  it("should report missing required fields", () => {
+    const issues = validateCache("docs", { title: "Claude Code", _metadata: metadata });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "$.source",
+      "$.url",
+      "$.fetchedAt",
+      "$.sections",
+      "$.rawText",
+    ]);
+  });
+
+  it("should reject a file that is not an object", () => {
+    expect(validateCache("catalogs", [])).toEqual([
+      { path: "$", message: "expected object, got array" },
+    ]);
+  });
+
+  it("should cap the number of issues reported", () => {
+    const releases = Array.from({ length: 50 }, () => ({ ...release, name: 1 }));
+
+    expect(validateCache("releases", { releases, _metadata: metadata })).toHaveLength(20);
+  });
+});
+
+describe("validatePageIndex", () => {
+  const entry = {
+    slug: "hooks",
+    url: "https://code.claude.com/docs/en/hooks.md",
+    fetchedAt: "2026-02-05T10:00:00.000Z",
+    checkedAt: "2026-02-05T10:00:00.000Z",
+    hash: "abc",
+    bytes: 3,
+  };
+
+  it("should accept a valid index", () => {
+    expect(validatePageIndex({ hooks: entry })).toEqual([]);
+  });
+
+  it("should report entries by slug", () => {
+    expect(validatePageIndex({ hooks: { ...entry, checkedAt: "soon" } })).toEqual([
+      { path: '$["hooks"].checkedAt', message: 'expected ISO date string, got "soon"' },
+    ]);
+  });
+});
+
+describe("validateHttpValidators", () => {
+  it("should accept validators keyed by URL", () => {
+    expect(validateHttpValidators({ "https://example.com": { etag: '"v1"' } })).toEqual([]);
+  });
+
+  it("should reject a file that is not an object", () => {
+    expect(validateHttpValidators([])).toEqual([
+      { path: "$", message: "expected object, got array" },
+    ]);
+  });
+});
+
+describe("CacheValidationError", () => {
+  it("should describe the first issue and count the rest", () => {
+    const error = new CacheValidationError("/cache/docs.json", [
+      { path: "$.url", message: "expected string, got number" },
+      { path: "$.rawText", message: "expected string, got undefined" },
+    ]);
+
+    expect(error.message).toBe(
+      "Invalid cache file /cache/docs.json: $.url: expected string, got number (and 1 more)"
+    );
+  });
+});
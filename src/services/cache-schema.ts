@@ -0,0 +1,219 @@
+import type { CacheKind } from "./cache-migrations.ts";
+
+/** One mismatch between a cache file and its schema, e.g. `$.releases[2].publishedAt`. */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/** Checks `value` and appends an issue for every mismatch found. */
+export type Schema = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+export class CacheValidationError extends Error {
+  constructor(
+    public cachePath: string,
+    public issues: SchemaIssue[]
+  ) {
+    const first = issues[0];
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`Invalid cache file ${cachePath}: ${first?.path}: ${first?.message}${more}`);
+    this.name = "CacheValidationError";
+  }
+}
+
+const MAX_ISSUES = 20;
+
+function fail(issues: SchemaIssue[], path: string, message: string): void {
+  if (issues.length < MAX_ISSUES) {
+    issues.push({ path, message });
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+const string: Schema = (value, path, issues) => {
+  if (typeof value !== "string") {
+    fail(issues, path, `expected string, got ${describe(value)}`);
+  }
+};
+
+const number: Schema = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(issues, path, `expected number, got ${describe(value)}`);
+  }
+};
+
+/** A date serialised by JSON.stringify; anything `new Date()` turns into Invalid Date fails. */
+const dateString: Schema = (value, path, issues) => {
+  if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+    fail(issues, path, `expected ISO date string, got ${JSON.stringify(value) ?? "undefined"}`);
+  }
+};
+
+function oneOf(...values: string[]): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      fail(issues, path, `expected one of ${values.join(", ")}, got ${JSON.stringify(value)}`);
+    }
+  };
+}
+
+function array(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      fail(issues, path, `expected array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((element, i) => item(element, `${path}[${i}]`, issues));
+  };
+}
+
+function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined) {
+      schema(value, path, issues);
+    }
+  };
+}
+
+/** Checks the listed properties; unknown properties are allowed. */
+function object(shape: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(issues, path, `expected object, got ${describe(value)}`);
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(shape)) {
+      schema(record[key], `${path}.${key}`, issues);
+    }
+  };
+}
+
+/** Checks every value of an object keyed by name, such as a slug or URL. */
+function record(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      fail(issues, path, `expected object, got ${describe(value)}`);
+      return;
+    }
+
+    for (const [key, element] of Object.entries(value)) {
+      item(element, `${path}[${JSON.stringify(key)}]`, issues);
+    }
+  };
+}
+
+const metadata = object({ cachedAt: dateString, version: string });
+
+const section = object({ title: string, content: string, level: number });
+
+const docIndexEntry = object({
+  title: string,
+  url: string,
+  slug: string,
+  description: optional(string),
+  group: optional(string),
+});
+
+const semver = object({ major: number, minor: number, patch: number, prerelease: array(string) });
+
+const release = object({
+  version: string,
+  semver: optional(semver),
+  name: string,
+  publishedAt: dateString,
+  url: string,
+  features: array(object({ name: string, description: optional(string) })),
+  rawBody: string,
+  changes: optional(
+    array(
+      object({
+        type: oneOf("added", "fixed", "changed", "deprecated", "removed", "security", "breaking"),
+        text: string,
+        depth: optional(number),
+      })
+    )
+  ),
+  changelog: optional(array(string)),
+});
+
+const provenance = object({ url: string, title: string, section: optional(string) });
+
+/** Schemas of each cache file at CACHE_VERSION, after migration. */
+const CACHE_SCHEMAS: Record<CacheKind, Schema> = {
+  docs: object({
+    title: string,
+    source: string,
+    url: string,
+    fetchedAt: dateString,
+    sections: array(section),
+    index: optional(array(docIndexEntry)),
+    rawText: string,
+    _metadata: metadata,
+  }),
+  releases: object({ releases: array(release), _metadata: metadata }),
+  catalogs: object({
+    settings: array(
+      object({ key: string, description: string, example: optional(string), source: provenance })
+    ),
+    envVars: array(object({ name: string, description: string, source: provenance })),
+    cliFlags: array(
+      object({
+        flag: string,
+        aliases: array(string),
+        description: string,
+        example: optional(string),
+        source: provenance,
+      })
+    ),
+    hookEvents: array(object({ name: string, description: string, source: provenance })),
+    sources: array(string),
+    _metadata: metadata,
+  }),
+};
+
+/**
+ * Checks a migrated cache file against its schema. Returns the issues
+ * found, at most twenty, with paths such as `$.releases[2].publishedAt`;
+ * an empty list means the file is valid.
+ */
+export function validateCache(kind: CacheKind, data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  CACHE_SCHEMAS[kind](data, "$", issues);
+  return issues;
+}
+
+const pageIndex = record(
+  object({
+    slug: string,
+    url: string,
+    title: optional(string),
+    fetchedAt: dateString,
+    checkedAt: dateString,
+    hash: string,
+    bytes: number,
+  })
+);
+
+const httpValidators = record(object({ etag: optional(string), lastModified: optional(string) }));
+
+/** Checks `pages/index.json`; same contract as validateCache. */
+export function validatePageIndex(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  pageIndex(data, "$", issues);
+  return issues;
+}
+
+/** Checks `http-validators.json`; same contract as validateCache. */
+export function validateHttpValidators(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  httpValidators(data, "$", issues);
+  return issues;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { ChangelogParser } from "./changelog-parser.ts";
+import type { ParsedRelease } from "./docs-parser.ts";
+
+describe("ChangelogParser", () => {
+  const parser = new ChangelogParser();
+
+  const CHANGELOG = `# Changelog
+
+## 1.0.41
+
+- Added \`--mirror\` support
+- Fixed hook timeouts
+  - Timeouts now apply per hook
+
+## [1.0.40] - 2025-06-01
+
+* Improved MCP reconnects
+
+## v1.0.39 (2025-05-28)
+
+- Initial release notes
+`;
+
+  describe("parse", () => {
+    it("should split the changelog into version entries", () => {
+      const entries = parser.parse(CHANGELOG);
+
+      expect(entries.map((e) => e.version)).toEqual(["1.0.41", "1.0.40", "1.0.39"]);
+      expect(entries[1]!.items).toEqual(["Improved MCP reconnects"]);
+    });
+
+    it("should read dates from version headings", () => {
+      const entries = parser.parse(CHANGELOG);
+
+      expect(entries[0]!.date).toBeUndefined();
+      expect(entries[1]!.date).toEqual(new Date("2025-06-01T00:00:00Z"));
+      expect(entries[2]!.date).toEqual(new Date("2025-05-28T00:00:00Z"));
+    });
+
+    it("should keep nested bullets with their parent item", () => {
+      const entries = parser.parse(CHANGELOG);
+
+      expect(entries[0]!.items).toHaveLength(2);
+      expect(entries[0]!.items[1]).toBe("Fixed hook timeouts\n  - Timeouts now apply per hook");
+    });
+
+    it("should stop an entry at a non-version heading", () => {
+      const entries = parser.parse("## 1.0.0\n\n- Item\n\n## Unreleased\n\n- Pending");
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]!.items).toEqual(["Item"]);
+    });
+
+    it("should return no entries for empty content", () => {
+      expect(parser.parse("")).toEqual([]);
+    });
+  });
+
+  describe("mergeWithReleases", () => {
+    const release = (version: string): ParsedRelease => ({
+      version,
+      name: version,
+      publishedAt: new Date("2025-06-01"),
+      url: `https://github.com/anthropics/claude-code/releases/tag/${version}`,
+      features: [],
+      rawBody: "",
+    });
+
+    it("should attach changelog items by version", () => {
+      const merged = parser.mergeWithReleases(
+        [release("v1.0.41"), release("v1.0.38")],
+        parser.parse(CHANGELOG)
+      );
+
+      expect(merged[0]!.changelog).toHaveLength(2);
+      expect(merged[1]!.changelog).toBeUndefined();
+    });
+
+    it("should categorise merged changelog items", () => {
+      const merged = parser.mergeWithReleases([release("v1.0.41")], parser.parse(CHANGELOG));
+
+      expect(merged[0]!.changes!.map((c) => c.type)).toEqual(["added", "fixed", "fixed"]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import type { ParsedRelease } from "./docs-parser.ts";
+import { ReleaseNotesParser } from "./release-notes-parser.ts";
+
+export interface ChangelogEntry {
+  version: string;
+  date?: Date;
+  /** Top-level bullets; nested bullets stay attached to their parent item. */
+  items: string[];
+  body: string;
+}
+
+// ## 1.0.40 | ## v1.0.40 | ## [1.0.40] - 2025-06-01 | ## 1.0.40 (2025-06-01)
+const VERSION_HEADING =
+  /^#{2,3}\s+\[?v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)\]?(?:\s*[-–(]\s*(\d{4}-\d{2}-\d{2})\)?)?\s*$/;
+
+/**
+ * Splits a CHANGELOG into per-version entries and merges them into releases.
+ */
+export class ChangelogParser {
+  parse(markdown: string): ChangelogEntry[] {
+    if (!markdown.trim()) {
+      return [];
+    }
+
+    const entries: ChangelogEntry[] = [];
+    const lines = markdown.split("\n");
+    let current: { version: string; date?: Date; lines: string[] } | null = null;
+
+    const flush = () => {
+      if (current) {
+        const body = current.lines.join("\n").trim();
+        entries.push({
+          version: current.version,
+          date: current.date,
+          items: this.extractItems(body),
+          body,
+        });
+      }
+    };
+
+    for (const line of lines) {
+      const match = line.match(VERSION_HEADING);
+
+      if (match) {
+        flush();
+        current = {
+          version: match[1]!,
+          date: match[2] ? new Date(`${match[2]}T00:00:00Z`) : undefined,
+          lines: [],
+        };
+        continue;
+      }
+
+      // Any other heading at version level ends the current entry
+      if (/^#{1,2}\s+/.test(line)) {
+        flush();
+        current = null;
+        continue;
+      }
+
+      current?.lines.push(line);
+    }
+
+    flush();
+    return entries;
+  }
+
+  /**
+   * Attaches changelog items to releases with a matching version, and
+   * categorises them in place of the (usually shorter) release body.
+   * Releases without a changelog entry are returned unchanged.
+   */
+  mergeWithReleases(releases: ParsedRelease[], entries: ChangelogEntry[]): ParsedRelease[] {
+    const byVersion = new Map<string, ChangelogEntry>();
+    for (const entry of entries) {
+      byVersion.set(this.normalizeVersion(entry.version), entry);
+    }
+
+    return releases.map((release) => {
+      const entry = byVersion.get(this.normalizeVersion(release.version));
+
+      if (!entry || entry.items.length === 0) {
+        return release;
+      }
+
+      return {
+        ...release,
+        changelog: entry.items,
+        changes: new ReleaseNotesParser().parse(entry.body),
+      };
+    });
+  }
+
+  private extractItems(body: string): string[] {
+    const items: string[] = [];
+
+    for (const line of body.split("\n")) {
+      const topLevel = line.match(/^[-*]\s+(.+)$/);
+
+      if (topLevel) {
+        items.push(topLevel[1]!.trim());
+      } else if (/^\s+[-*]\s+/.test(line) && items.length > 0) {
+        // Nested bullet: keep it with its parent item
+        items[items.length - 1] += `\n${line.trimEnd()}`;
+      }
+    }
+
+    return items;
+  }
+
+  private normalizeVersion(version: string): string {
+    return version.trim().replace(/^v/i, "");
+  }
+}
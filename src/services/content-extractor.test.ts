@@ -213,6 +213,24 @@ other: content
       expect(section!.codeBlocks[0].code).toContain('"name": "example"');
     });
 
+    it("should not end a section at a comment inside a code fence", () => {
+      const markdown = `
+## Install
+
+\`\`\`bash
+# install globally
+npm install -g tool
+\`\`\`
+
+## Next
+`;
+
+      const section = extractor.extractSection(markdown, "Install");
+
+      expect(section!.content).toContain("npm install -g tool");
+      expect(section!.codeBlocks).toHaveLength(1);
+    });
+
     it("should be case-insensitive for heading matching", () => {
       const markdown = `
 ## EVENT HANDLERS
@@ -278,6 +296,27 @@ Just text here.
       expect(blocks).toEqual([]);
     });
 
+    it("should extract tilde and four-backtick fences", () => {
+      const markdown = `
+~~~bash
+claude --help
+~~~
+
+\`\`\`\`markdown
+\`\`\`json
+{}
+\`\`\`
+\`\`\`\`
+`;
+
+      const blocks = extractor.extractCodeBlocks(markdown);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toEqual({ language: "bash", code: "claude --help" });
+      expect(blocks[1]!.language).toBe("markdown");
+      expect(blocks[1]!.code).toBe("\`\`\`json\n{}\n\`\`\`");
+    });
+
     it("should preserve indentation in code blocks", () => {
       const markdown = `
 \`\`\`typescript
@@ -320,6 +359,23 @@ function example() {
       expect(headings[4]).toEqual({ level: 2, title: "Section Two" });
     });
 
+    it("should ignore comments inside code fences", () => {
+      const markdown = `
+## Setup
+
+\`\`\`bash
+## install dependencies
+npm install
+\`\`\`
+
+## Usage
+`;
+
+      const headings = extractor.extractHeadings(markdown);
+
+      expect(headings.map((h) => h.title)).toEqual(["Setup", "Usage"]);
+    });
+
     it("should handle headings with formatting", () => {
       const markdown = `
 ## **Bold Heading**
@@ -1,3 +1,5 @@
+import { MarkdownParser, type HeadingNode } from "./markdown-parser.ts";
+
 export interface ExtractedTable {
   headers: string[];
   rows: string[][];
@@ -21,40 +23,19 @@ export interface Heading {
 }
 
 export class ContentExtractor {
+  private markdown = new MarkdownParser();
+
   extractTables(markdown: string): ExtractedTable[] {
     if (!markdown.trim()) {
       return [];
     }
 
     const tables: ExtractedTable[] = [];
-    const lines = markdown.split("\n");
 
-    let i = 0;
-    while (i < lines.length) {
-      const line = lines[i];
-
-      // Look for table header row (must have pipes)
-      if (this.isTableRow(line) && i + 1 < lines.length) {
-        const nextLine = lines[i + 1];
-
-        // Check if next line is separator (|---|---|)
-        if (this.isTableSeparator(nextLine)) {
-          const headers = this.parseTableRow(line);
-          const rows: string[][] = [];
-
-          // Parse data rows
-          let j = i + 2;
-          while (j < lines.length && this.isTableRow(lines[j])) {
-            rows.push(this.parseTableRow(lines[j]));
-            j++;
-          }
-
-          tables.push({ headers, rows });
-          i = j;
-          continue;
-        }
+    for (const node of this.markdown.walk(this.markdown.parse(markdown))) {
+      if (node.type === "table") {
+        tables.push({ headers: node.headers, rows: node.rows });
       }
-      i++;
     }
 
     return tables;
@@ -67,54 +48,24 @@ export class ContentExtractor {
 
     const lines = markdown.split("\n");
     const headingLower = heading.toLowerCase();
-
-    let startIndex = -1;
-    let sectionLevel = 0;
-    let actualTitle = "";
+    const headings = this.headingNodes(markdown);
 
     // Find the heading
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-
-      if (headingMatch) {
-        const level = headingMatch[1].length;
-        const title = headingMatch[2].trim();
-
-        if (title.toLowerCase() === headingLower) {
-          startIndex = i;
-          sectionLevel = level;
-          actualTitle = title;
-          break;
-        }
-      }
-    }
-
+    const startIndex = headings.findIndex((node) => node.text.toLowerCase() === headingLower);
     if (startIndex === -1) {
       return null;
     }
+    const start = headings[startIndex]!;
 
     // Find the end of the section (next heading at same or higher level)
-    let endIndex = lines.length;
-    for (let i = startIndex + 1; i < lines.length; i++) {
-      const line = lines[i];
-      const headingMatch = line.match(/^(#{1,6})\s+.+$/);
-
-      if (headingMatch) {
-        const level = headingMatch[1].length;
-        if (level <= sectionLevel) {
-          endIndex = i;
-          break;
-        }
-      }
-    }
+    const end = headings.slice(startIndex + 1).find((node) => node.level <= start.level);
 
-    // Extract section content (excluding the heading line itself)
-    const sectionLines = lines.slice(startIndex + 1, endIndex);
+    // Extract section content (excluding the heading itself)
+    const sectionLines = lines.slice(start.endLine, end ? end.line : lines.length);
     const sectionContent = sectionLines.join("\n").trim();
 
     return {
-      title: actualTitle,
+      title: start.text,
       content: sectionContent,
       tables: this.extractTables(sectionContent),
       codeBlocks: this.extractCodeBlocks(sectionContent),
@@ -127,14 +78,14 @@ export class ContentExtractor {
     }
 
     const blocks: CodeBlock[] = [];
-    const codeBlockRegex = /```(\w*)\n([\s\S]*?)```/g;
-
-    let match;
-    while ((match = codeBlockRegex.exec(markdown)) !== null) {
-      blocks.push({
-        language: match[1] || "",
-        code: match[2].trim(),
-      });
+
+    for (const node of this.markdown.walk(this.markdown.parse(markdown))) {
+      if (node.type === "code" && node.fenced) {
+        blocks.push({
+          language: node.lang,
+          code: node.code.trim(),
+        });
+      }
     }
 
     return blocks;
@@ -145,20 +96,10 @@ export class ContentExtractor {
       return [];
     }
 
-    const headings: Heading[] = [];
-    const lines = markdown.split("\n");
-
-    for (const line of lines) {
-      const match = line.match(/^(#{1,6})\s+(.+)$/);
-      if (match) {
-        headings.push({
-          level: match[1].length,
-          title: match[2].trim(),
-        });
-      }
-    }
-
-    return headings;
+    return this.headingNodes(markdown).map((node) => ({
+      level: node.level,
+      title: node.text,
+    }));
   }
 
   extractBulletList(markdown: string): string[] {
@@ -167,31 +108,20 @@ export class ContentExtractor {
     }
 
     const items: string[] = [];
-    const lines = markdown.split("\n");
 
-    for (const line of lines) {
-      const match = line.match(/^\s*[-*]\s+(.+)$/);
-      if (match) {
-        items.push(match[1].trim());
+    // Nested items are flattened in document order
+    for (const { item, list } of this.markdown.walkListItems(this.markdown.parse(markdown))) {
+      if (!list.ordered && item.text) {
+        items.push(item.text);
       }
     }
 
     return items;
   }
 
-  private isTableRow(line: string): boolean {
-    return line.includes("|") && line.trim().startsWith("|");
-  }
-
-  private isTableSeparator(line: string): boolean {
-    // Matches |---|---| or | --- | --- | patterns
-    return /^\|[\s-:|]+\|$/.test(line.trim());
-  }
-
-  private parseTableRow(line: string): string[] {
-    // Remove leading/trailing pipes and split by |
-    const trimmed = line.trim();
-    const withoutPipes = trimmed.slice(1, trimmed.length - 1);
-    return withoutPipes.split("|").map((cell) => cell.trim());
+  private headingNodes(markdown: string): HeadingNode[] {
+    return this.markdown
+      .parse(markdown)
+      .filter((node): node is HeadingNode => node.type === "heading");
   }
 }
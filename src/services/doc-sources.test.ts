@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test";
+import {
+  DocSourceRegistry,
+  CLAUDE_CODE_DOCS_SOURCE,
+  DEFAULT_DOC_SOURCE_ID,
+  createDocSource,
+  parseDocSourceConfigs,
+} from "./doc-sources.ts";
+
+describe("DocSourceRegistry", () => {
+  const agentSdk = createDocSource({
+    id: "agent-sdk",
+    name: "Agent SDK docs",
+    url: "https://example.com/agent-sdk/llms.txt",
+  });
+
+  it("should register the official docs by default", () => {
+    const registry = new DocSourceRegistry();
+
+    expect(registry.list()).toEqual([CLAUDE_CODE_DOCS_SOURCE]);
+    expect(registry.get(DEFAULT_DOC_SOURCE_ID)).toBe(CLAUDE_CODE_DOCS_SOURCE);
+  });
+
+  it("should keep sources in registration order", () => {
+    const registry = new DocSourceRegistry();
+
+    registry.register(agentSdk);
+
+    expect(registry.list().map((s) => s.id)).toEqual(["llms.txt", "agent-sdk"]);
+  });
+
+  it("should reject duplicate ids", () => {
+    const registry = new DocSourceRegistry([agentSdk]);
+
+    expect(() => registry.register(agentSdk)).toThrow(
+      "Documentation source already registered: agent-sdk"
+    );
+  });
+
+  it("should reject ids that are not safe file names", () => {
+    const registry = new DocSourceRegistry([]);
+
+    expect(() => registry.register({ ...agentSdk, id: "../escape" })).toThrow(
+      "Invalid documentation source id: ../escape"
+    );
+  });
+
+  it("should throw from require for unknown ids", () => {
+    expect(() => new DocSourceRegistry().require("missing")).toThrow(
+      "Unknown documentation source: missing"
+    );
+  });
+});
+
+describe("createDocSource", () => {
+  it("should parse content as markdown tagged with the source id", () => {
+    const source = createDocSource({ id: "plugin-guide", url: "https://example.com/guide.md" });
+
+    const parsed = source.parse({
+      content: "# Plugin Guide\n\n## Setup\n\nSteps",
+      source: source.id,
+      url: source.url,
+      fetchedAt: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    expect(source.name).toBe("plugin-guide");
+    expect(parsed.source).toBe("plugin-guide");
+    expect(parsed.title).toBe("Plugin Guide");
+    expect(parsed.sections[0]!.title).toBe("Setup");
+  });
+});
+
+describe("parseDocSourceConfigs", () => {
+  it("should return valid entries", () => {
+    const configs = parseDocSourceConfigs([
+      { id: "agent-sdk", name: "Agent SDK", url: "https://example.com/llms.txt" },
+      { id: "plugin-guide", url: "https://example.com/guide.md" },
+    ]);
+
+    expect(configs.map((config) => config.id)).toEqual(["agent-sdk", "plugin-guide"]);
+    expect(configs[0]!.name).toBe("Agent SDK");
+  });
+
+  it("should reject a file that is not an array", () => {
+    expect(() => parseDocSourceConfigs({ id: "x" })).toThrow("must be a JSON array");
+  });
+
+  it("should name the first invalid entry", () => {
+    expect(() =>
+      parseDocSourceConfigs([
+        { id: "ok", url: "https://example.com/llms.txt" },
+        { id: "broken", url: "not a url" },
+      ])
+    ).toThrow(
+      'Invalid documentation source at index 1: url must be an http(s) URL, got "not a url"'
+    );
+    expect(() => parseDocSourceConfigs(["agent-sdk"])).toThrow("index 0: expected an object");
+    expect(() => parseDocSourceConfigs([{ id: "../etc", url: "https://example.com" }])).toThrow(
+      "index 0: id must be a safe file name"
+    );
+    expect(() =>
+      parseDocSourceConfigs([{ id: "sdk", name: 3, url: "https://example.com" }])
+    ).toThrow("index 0: name must be a string");
+  });
+});
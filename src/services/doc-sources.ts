@@ -0,0 +1,125 @@
+import type { RawDocs } from "./docs-fetcher.ts";
+import { DocsParser, type ParsedContent } from "./docs-parser.ts";
+
+/**
+ * A documentation source: where to fetch it, how to parse it, and the
+ * id under which it is cached.
+ */
+export interface DocSource {
+  /** Stable id; recorded as ParsedContent.source and used as the cache slot. */
+  id: string;
+  /** Human-readable name used in logs and error messages. */
+  name: string;
+  url: string;
+  parse(raw: RawDocs): ParsedContent;
+}
+
+/** Plain source definition, e.g. from a JSON config file. */
+export interface DocSourceConfig {
+  id: string;
+  name?: string;
+  url: string;
+}
+
+export const DEFAULT_DOC_SOURCE_ID = "llms.txt";
+
+/** Ids double as file names, so keep them to a safe character set. */
+export const DOC_SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const docsParser = new DocsParser();
+
+export const CLAUDE_CODE_DOCS_SOURCE: DocSource = {
+  id: DEFAULT_DOC_SOURCE_ID,
+  name: "official docs",
+  url: "https://code.claude.com/docs/llms.txt",
+  parse: (raw) => docsParser.parseDocs(raw),
+};
+
+/**
+ * Builds a source parsed as markdown with the default DocsParser.
+ */
+export function createDocSource(config: DocSourceConfig): DocSource {
+  return {
+    id: config.id,
+    name: config.name ?? config.id,
+    url: config.url,
+    parse: (raw) => docsParser.parseDocs(raw),
+  };
+}
+
+/**
+ * Checks a parsed sources file, e.g. from `--sources`, and returns its
+ * entries. Throws naming the first entry that is not a valid DocSourceConfig.
+ */
+export function parseDocSourceConfigs(data: unknown): DocSourceConfig[] {
+  if (!Array.isArray(data)) {
+    throw new Error("Documentation sources must be a JSON array of { id, name?, url }");
+  }
+
+  return data.map((entry: unknown, i) => {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid documentation source at index ${i}: ${message}`);
+    };
+
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      return fail("expected an object with id and url");
+    }
+
+    const { id, name, url } = entry as Record<string, unknown>;
+    if (typeof id !== "string" || !DOC_SOURCE_ID_PATTERN.test(id)) {
+      fail(`id must be a safe file name, got ${JSON.stringify(id)}`);
+    }
+    if (name !== undefined && typeof name !== "string") {
+      fail(`name must be a string, got ${JSON.stringify(name)}`);
+    }
+    const isHttpUrl =
+      typeof url === "string" && URL.canParse(url) && /^https?:$/.test(new URL(url).protocol);
+    if (!isHttpUrl) {
+      fail(`url must be an http(s) URL, got ${JSON.stringify(url)}`);
+    }
+
+    return { id, name, url } as DocSourceConfig;
+  });
+}
+
+export class DocSourceRegistry {
+  private sources = new Map<string, DocSource>();
+
+  constructor(sources: DocSource[] = [CLAUDE_CODE_DOCS_SOURCE]) {
+    for (const source of sources) {
+      this.register(source);
+    }
+  }
+
+  register(source: DocSource): void {
+    if (!DOC_SOURCE_ID_PATTERN.test(source.id)) {
+      throw new Error(`Invalid documentation source id: ${source.id}`);
+    }
+    if (this.sources.has(source.id)) {
+      throw new Error(`Documentation source already registered: ${source.id}`);
+    }
+
+    this.sources.set(source.id, source);
+  }
+
+  get(id: string): DocSource | undefined {
+    return this.sources.get(id);
+  }
+
+  /**
+   * Like get, but throws for unknown ids.
+   */
+  require(id: string): DocSource {
+    const source = this.sources.get(id);
+
+    if (!source) {
+      throw new Error(`Unknown documentation source: ${id}`);
+    }
+
+    return source;
+  }
+
+  list(): DocSource[] {
+    return [...this.sources.values()];
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { DocsCrawler } from "./docs-crawler.ts";
+import { PageCache } from "./page-cache.ts";
+import { HttpValidatorStore } from "./http-validator-store.ts";
+import { RetryPolicy } from "./retry-policy.ts";
+import type { HttpTransport } from "./http-transport.ts";
+import { mkdir, rm } from "node:fs/promises";
+
+describe("DocsCrawler", () => {
+  const testCacheDir = "/tmp/phoenixlab-docs-crawler-test";
+  const retryPolicy = new RetryPolicy({ maxAttempts: 1 });
+  let pageCache: PageCache;
+
+  const LLMS_TXT = `# Claude Code Docs
+
+## Docs
+
+- [Hooks reference](https://code.claude.com/docs/en/hooks.md): Hook events and configuration.
+- [Connect Claude Code to tools via MCP](https://code.claude.com/docs/en/mcp.md): MCP servers.
+- [Changelog](https://code.claude.com/docs/en/changelog.md)
+- [Hooks reference](https://code.claude.com/docs/en/hooks.md): Duplicate entry.
+`;
+
+  const pageTransport = (pages: Record<string, Response | (() => Response)>): HttpTransport => ({
+    fetch: mock((url: string) => {
+      const page = pages[url];
+      if (!page) {
+        return Promise.resolve(new Response("Not Found", { status: 404 }));
+      }
+      return Promise.resolve(typeof page === "function" ? page() : page);
+    }),
+  });
+
+  beforeEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+    await mkdir(testCacheDir, { recursive: true });
+    pageCache = new PageCache(testCacheDir);
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  describe("extractTargets", () => {
+    it("should parse the llms.txt link list", () => {
+      const crawler = new DocsCrawler(pageCache);
+
+      const targets = crawler.extractTargets(LLMS_TXT);
+
+      expect(targets).toHaveLength(3);
+      expect(targets[0]).toEqual({
+        title: "Hooks reference",
+        url: "https://code.claude.com/docs/en/hooks.md",
+        slug: "hooks",
+      });
+      expect(targets.map((t) => t.slug)).toEqual(["hooks", "mcp", "changelog"]);
+    });
+
+    it("should return no targets for empty content", () => {
+      expect(new DocsCrawler(pageCache).extractTargets("")).toEqual([]);
+    });
+  });
+
+  describe("slugFromUrl", () => {
+    it("should flatten nested page paths", () => {
+      const crawler = new DocsCrawler(pageCache);
+
+      expect(crawler.slugFromUrl("https://code.claude.com/docs/en/sdk/overview.md")).toMatch(
+        /^sdk-overview-[0-9a-f]{8}$/
+      );
+      expect(crawler.slugFromUrl("https://code.claude.com/docs/en/sub-agents.md")).toBe(
+        "sub-agents"
+      );
+    });
+  });
+
+  describe("crawl", () => {
+    it("should fetch every linked page into the page cache", async () => {
+      const transport = pageTransport({
+        "https://code.claude.com/docs/en/hooks.md": new Response("# Hooks"),
+        "https://code.claude.com/docs/en/mcp.md": new Response("# MCP"),
+        "https://code.claude.com/docs/en/changelog.md": new Response("# Changelog"),
+      });
+      const crawler = new DocsCrawler(pageCache, { transport, retryPolicy });
+
+      const result = await crawler.crawl(LLMS_TXT);
+
+      expect(result.fetched).toBe(3);
+      expect(result.failed).toBe(0);
+      expect((await pageCache.readPage("mcp"))!.content).toBe("# MCP");
+      expect((await pageCache.readPage("hooks"))!.title).toBe("Hooks reference");
+    });
+
+    it("should report failed pages without aborting the crawl", async () => {
+      const transport = pageTransport({
+        "https://code.claude.com/docs/en/hooks.md": new Response("# Hooks"),
+      });
+      const crawler = new DocsCrawler(pageCache, { transport, retryPolicy });
+
+      const result = await crawler.crawl(LLMS_TXT);
+
+      expect(result.fetched).toBe(1);
+      expect(result.failed).toBe(2);
+      const failed = result.pages.find((p) => p.slug === "mcp");
+      expect(failed!.status).toBe("failed");
+      expect(failed!.error).toContain("404");
+    });
+
+    it("should never exceed the concurrency limit", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const transport: HttpTransport = {
+        fetch: async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await Bun.sleep(5);
+          active--;
+          return new Response("# Page");
+        },
+      };
+      const targets = Array.from({ length: 12 }, (_, i) => ({
+        title: `Page ${i}`,
+        url: `https://code.claude.com/docs/en/page-${i}.md`,
+        slug: `page-${i}`,
+      }));
+      const crawler = new DocsCrawler(pageCache, { transport, retryPolicy, concurrency: 3 });
+
+      const result = await crawler.crawlTargets(targets);
+
+      expect(result.fetched).toBe(12);
+      expect(maxActive).toBe(3);
+    });
+
+    it("should keep cached pages that answer 304", async () => {
+      const validatorStore = new HttpValidatorStore(testCacheDir);
+      const first = new DocsCrawler(pageCache, {
+        validatorStore,
+        retryPolicy,
+        transport: pageTransport({
+          "https://code.claude.com/docs/en/hooks.md": new Response("# Hooks", {
+            headers: { ETag: '"hooks-v1"' },
+          }),
+        }),
+      });
+      await first.crawl(LLMS_TXT);
+
+      const transport = pageTransport({
+        "https://code.claude.com/docs/en/hooks.md": () => new Response(null, { status: 304 }),
+      });
+      const second = new DocsCrawler(pageCache, { validatorStore, retryPolicy, transport });
+      const result = await second.crawl(LLMS_TXT);
+
+      expect(result.pages[0]!.status).toBe("unchanged");
+      expect((await pageCache.readPage("hooks"))!.content).toBe("# Hooks");
+      const calls = (transport.fetch as ReturnType<typeof mock>).mock.calls;
+      const hooksCall = calls.find((call) => call[0] === "https://code.claude.com/docs/en/hooks.md");
+      const init = hooksCall![1] as RequestInit;
+      expect((init.headers as Record<string, string>)["If-None-Match"]).toBe('"hooks-v1"');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import type { PageCache } from "./page-cache.ts";
+import type { HttpValidatorStore } from "./http-validator-store.ts";
+import { RetryPolicy } from "./retry-policy.ts";
+import { FetchTransport, type HttpTransport } from "./http-transport.ts";
+import { DocsParser, slugFromUrl } from "./docs-parser.ts";
+
+export interface CrawlTarget {
+  title: string;
+  url: string;
+  slug: string;
+}
+
+export type CrawlStatus = "fetched" | "unchanged" | "failed";
+
+export interface CrawlPageResult {
+  slug: string;
+  url: string;
+  status: CrawlStatus;
+  error?: string;
+}
+
+export interface CrawlResult {
+  pages: CrawlPageResult[];
+  fetched: number;
+  unchanged: number;
+  failed: number;
+}
+
+export interface DocsCrawlerOptions {
+  /** Maximum number of pages fetched in parallel. */
+  concurrency?: number;
+  /** Enables conditional requests for pages already in the cache. */
+  validatorStore?: HttpValidatorStore;
+  retryPolicy?: RetryPolicy;
+  transport?: HttpTransport;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Fetches every page linked from llms.txt into the per-page cache.
+ */
+export class DocsCrawler {
+  private concurrency: number;
+  private validatorStore?: HttpValidatorStore;
+  private retryPolicy: RetryPolicy;
+  private transport: HttpTransport;
+
+  constructor(
+    private pageCache: PageCache,
+    options: DocsCrawlerOptions = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.validatorStore = options.validatorStore;
+    this.retryPolicy = options.retryPolicy ?? new RetryPolicy();
+    this.transport = options.transport ?? new FetchTransport();
+  }
+
+  /**
+   * Extracts the `- [Title](url)` link list from llms.txt, de-duplicated by URL.
+   */
+  extractTargets(llmsTxt: string): CrawlTarget[] {
+    return new DocsParser()
+      .parseIndex(llmsTxt)
+      .map(({ title, url, slug }) => ({ title, url, slug }));
+  }
+
+  /**
+   * Derives a cache key from a page URL, e.g. `.../docs/en/hooks.md` → `hooks`.
+   */
+  slugFromUrl(url: string): string {
+    return slugFromUrl(url);
+  }
+
+  async crawl(llmsTxt: string): Promise<CrawlResult> {
+    return this.crawlTargets(this.extractTargets(llmsTxt));
+  }
+
+  async crawlTargets(targets: CrawlTarget[]): Promise<CrawlResult> {
+    const pages: CrawlPageResult[] = new Array(targets.length);
+    let next = 0;
+
+    // Fixed pool of workers pulling targets until the queue is empty
+    const worker = async () => {
+      while (next < targets.length) {
+        const index = next++;
+        pages[index] = await this.crawlPage(targets[index]!);
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, targets.length) }, worker);
+    await Promise.all(workers);
+
+    return {
+      pages,
+      fetched: pages.filter((p) => p.status === "fetched").length,
+      unchanged: pages.filter((p) => p.status === "unchanged").length,
+      failed: pages.filter((p) => p.status === "failed").length,
+    };
+  }
+
+  private async crawlPage(target: CrawlTarget): Promise<CrawlPageResult> {
+    const { slug, url } = target;
+
+    try {
+      // Only revalidate pages we can fall back on
+      const cached = await this.pageCache.getEntry(slug);
+      const conditionalHeaders =
+        cached && this.validatorStore
+          ? await this.validatorStore.getConditionalHeaders(url)
+          : {};
+
+      const response = await this.retryPolicy.execute(url, () =>
+        this.transport.fetch(url, {
+          headers: {
+            "User-Agent": "phoenixlab-plugin-dev/0.1.0",
+            ...conditionalHeaders,
+          },
+        })
+      );
+
+      if (response.status === 304) {
+        await this.pageCache.touchPage(slug);
+        return { slug, url, status: "unchanged" };
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status}`);
+      }
+
+      const content = await response.text();
+      await this.pageCache.writePage({ slug, url, title: target.title, content });
+      await this.validatorStore?.record(url, response);
+
+      return { slug, url, status: "fetched" };
+    } catch (error) {
+      return {
+        slug,
+        url,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -1,28 +1,39 @@
-import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
-import { DocsFetcher, type RawDocs, type Release } from "./docs-fetcher.ts";
+import { describe, it, expect, mock, spyOn, beforeEach, afterEach } from "bun:test";
+import {
+  DocsFetcher,
+  GitHubAuthError,
+  resolveGitHubToken,
+  type RawDocs,
+  type Release,
+} from "./docs-fetcher.ts";
+import { HttpValidatorStore } from "./http-validator-store.ts";
+import { createDocSource } from "./doc-sources.ts";
+import { RateLimitError, RetryPolicy } from "./retry-policy.ts";
+import type { HttpTransport } from "./http-transport.ts";
+import { rm } from "node:fs/promises";
 
 describe("DocsFetcher", () => {
   let fetcher: DocsFetcher;
-  const originalFetch = globalThis.fetch;
+  const retryPolicy = new RetryPolicy({ sleep: () => Promise.resolve() });
+  /** Answers the requests of fetchers built on stubTransport; each test sets its own. */
+  let transportFetch: (url: string, init?: RequestInit) => Promise<Response>;
+  const stubTransport: HttpTransport = { fetch: (url, init) => transportFetch(url, init) };
 
   beforeEach(() => {
-    fetcher = new DocsFetcher();
-  });
-
-  afterEach(() => {
-    globalThis.fetch = originalFetch;
+    transportFetch = () => Promise.reject(new Error("unexpected request"));
+    fetcher = new DocsFetcher({ retryPolicy, transport: stubTransport });
   });
 
   describe("fetchOfficialDocs", () => {
     it("should fetch docs from the llms.txt URL", async () => {
       const mockContent = "# Claude Code\n\nDocumentation content";
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response(mockContent, { status: 200 }))
       );
 
       const result = await fetcher.fetchOfficialDocs();
 
-      expect(globalThis.fetch).toHaveBeenCalledWith(
+      expect(transportFetch).toHaveBeenCalledWith(
         "https://code.claude.com/docs/llms.txt",
         expect.any(Object)
       );
@@ -33,7 +44,7 @@ describe("DocsFetcher", () => {
     });
 
     it("should throw on non-200 response", async () => {
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response("Not Found", { status: 404 }))
       );
 
@@ -41,7 +52,7 @@ describe("DocsFetcher", () => {
     });
 
     it("should throw on network error", async () => {
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.reject(new Error("Network error"))
       );
 
@@ -67,13 +78,13 @@ describe("DocsFetcher", () => {
           html_url: "https://github.com/anthropics/claude-code/releases/tag/v0.9.0",
         },
       ];
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response(JSON.stringify(mockReleases), { status: 200 }))
       );
 
       const result = await fetcher.fetchGitHubReleases();
 
-      expect(globalThis.fetch).toHaveBeenCalledWith(
+      expect(transportFetch).toHaveBeenCalledWith(
         "https://api.github.com/repos/anthropics/claude-code/releases",
         expect.any(Object)
       );
@@ -88,7 +99,7 @@ describe("DocsFetcher", () => {
     });
 
     it("should return empty array on 404", async () => {
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response("Not Found", { status: 404 }))
       );
 
@@ -98,7 +109,7 @@ describe("DocsFetcher", () => {
     });
 
     it("should throw on other non-200 responses", async () => {
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response("Server Error", { status: 500 }))
       );
 
@@ -113,7 +124,7 @@ describe("DocsFetcher", () => {
         published_at: new Date(2024, 0, i + 1).toISOString(),
         html_url: `https://github.com/anthropics/claude-code/releases/tag/v1.${i}.0`,
       }));
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response(JSON.stringify(manyReleases), { status: 200 }))
       );
 
@@ -123,6 +134,536 @@ describe("DocsFetcher", () => {
     });
   });
 
+  describe("GitHub authentication", () => {
+    const releasesTransport = (status = 200) => ({
+      fetch: mock((_url: string, _init?: RequestInit) =>
+        Promise.resolve(
+          new Response(status === 200 ? "[]" : "Bad credentials", { status })
+        )
+      ),
+    });
+
+    const sentHeaders = (transport: ReturnType<typeof releasesTransport>) =>
+      transport.fetch.mock.calls[0]![1]!.headers as Record<string, string>;
+
+    it("should send the token as a bearer Authorization header", async () => {
+      const transport = releasesTransport();
+      fetcher = new DocsFetcher({ retryPolicy, transport, githubToken: "ghp_test" });
+
+      await fetcher.fetchGitHubReleases();
+
+      expect(sentHeaders(transport).Authorization).toBe("Bearer ghp_test");
+    });
+
+    it("should not send the token to the docs site", async () => {
+      const transport = releasesTransport();
+      fetcher = new DocsFetcher({ retryPolicy, transport, githubToken: "ghp_test" });
+
+      await fetcher.fetchOfficialDocs();
+
+      expect(sentHeaders(transport).Authorization).toBeUndefined();
+    });
+
+    it("should not send the token to a next page on another host", async () => {
+      const transport: HttpTransport = {
+        fetch: mock((url: string, _init?: RequestInit) => {
+          const headers: Record<string, string> = url.startsWith("https://api.github.com")
+            ? { Link: '<https://elsewhere.example.com/releases?page=2>; rel="next"' }
+            : {};
+          return Promise.resolve(new Response("[]", { status: 200, headers }));
+        }),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport, githubToken: "ghp_test" });
+
+      await fetcher.fetchGitHubReleases();
+
+      const calls = (transport.fetch as ReturnType<typeof mock>).mock.calls;
+      const headersOf = (i: number) => calls[i]![1]!.headers as Record<string, string>;
+      expect(calls).toHaveLength(2);
+      expect(headersOf(0).Authorization).toBe("Bearer ghp_test");
+      expect(headersOf(1).Authorization).toBeUndefined();
+    });
+
+    it("should call a configured GitHub Enterprise API", async () => {
+      const transport = releasesTransport();
+      fetcher = new DocsFetcher({
+        retryPolicy,
+        transport,
+        githubApiUrl: "https://github.example.com/api/v3/",
+      });
+
+      await fetcher.fetchGitHubReleases({ perPage: 50 });
+
+      expect(transport.fetch.mock.calls[0]![0]).toBe(
+        "https://github.example.com/api/v3/repos/anthropics/claude-code/releases?per_page=50"
+      );
+    });
+
+    it("should raise GitHubAuthError when the token is rejected", async () => {
+      fetcher = new DocsFetcher({
+        retryPolicy,
+        transport: releasesTransport(401),
+        githubToken: "ghp_expired",
+      });
+
+      try {
+        await fetcher.fetchGitHubReleases();
+        throw new Error("expected GitHubAuthError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(GitHubAuthError);
+        expect((error as GitHubAuthError).status).toBe(401);
+        expect((error as GitHubAuthError).authenticated).toBe(true);
+      }
+    });
+
+    it("should raise GitHubAuthError for an anonymous 403 that is not rate limited", async () => {
+      fetcher = new DocsFetcher({ retryPolicy, transport: releasesTransport(403) });
+
+      await expect(fetcher.fetchGitHubReleases()).rejects.toBeInstanceOf(GitHubAuthError);
+    });
+
+    it("should read the token from GITHUB_TOKEN, then GH_TOKEN", () => {
+      expect(resolveGitHubToken({ GITHUB_TOKEN: "a", GH_TOKEN: "b" })).toBe("a");
+      expect(resolveGitHubToken({ GITHUB_TOKEN: " ", GH_TOKEN: "b" })).toBe("b");
+      expect(resolveGitHubToken({})).toBeUndefined();
+    });
+  });
+
+  describe("fetchGitHubReleases pagination", () => {
+    const releasesUrl = "https://api.github.com/repos/anthropics/claude-code/releases";
+
+    const makeRelease = (minor: number) => ({
+      tag_name: `v1.0.${minor}`,
+      name: `v1.0.${minor}`,
+      body: `Notes ${minor}`,
+      published_at: new Date(Date.UTC(2025, 0, minor + 1)).toISOString(),
+      html_url: `https://github.com/anthropics/claude-code/releases/tag/v1.0.${minor}`,
+    });
+
+    // Three pages of newest-first releases: 1.0.49..1.0.40, 1.0.39..1.0.30, 1.0.29..1.0.20
+    const pages = [0, 1, 2].map((page) =>
+      Array.from({ length: 10 }, (_, i) => makeRelease(49 - page * 10 - i))
+    );
+
+    const pagedFetchMock = () =>
+      mock((url: string, _init?: RequestInit) => {
+        const page = Number(new URL(url).searchParams.get("page") ?? "1");
+        const headers: Record<string, string> = {};
+        if (page < pages.length) {
+          headers.Link = `<${releasesUrl}?per_page=10&page=${page + 1}>; rel="next", <${releasesUrl}?per_page=10&page=${pages.length}>; rel="last"`;
+        }
+        return Promise.resolve(
+          new Response(JSON.stringify(pages[page - 1] ?? []), { status: 200, headers })
+        );
+      });
+
+    const mockPagedFetch = () => {
+      const fetchMock = pagedFetchMock();
+      transportFetch = fetchMock;
+      return fetchMock;
+    };
+
+    it("should follow Link headers beyond the first page", async () => {
+      const fetchMock = mockPagedFetch();
+
+      const result = await fetcher.fetchGitHubReleases({ limit: 25, perPage: 10 });
+
+      expect(result).toHaveLength(25);
+      expect(result[0]!.tagName).toBe("v1.0.49");
+      expect(result[24]!.tagName).toBe("v1.0.25");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should send per_page on the first request", async () => {
+      const fetchMock = mockPagedFetch();
+
+      await fetcher.fetchGitHubReleases({ limit: 5, perPage: 10 });
+
+      expect(fetchMock.mock.calls[0]![0]).toBe(`${releasesUrl}?per_page=10`);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop at sinceVersion without including it", async () => {
+      const fetchMock = mockPagedFetch();
+
+      const result = await fetcher.fetchGitHubReleases({
+        limit: 100,
+        perPage: 10,
+        sinceVersion: "1.0.40",
+      });
+
+      expect(result.map((r) => r.tagName)).toEqual(
+        Array.from({ length: 9 }, (_, i) => `v1.0.${49 - i}`)
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop at sinceDate", async () => {
+      mockPagedFetch();
+
+      const result = await fetcher.fetchGitHubReleases({
+        limit: 100,
+        perPage: 10,
+        sinceDate: new Date(Date.UTC(2025, 0, 36)),
+      });
+
+      expect(result).toHaveLength(14);
+      expect(result[13]!.tagName).toBe("v1.0.36");
+    });
+
+    it("should not cap cursor fetches at the default limit", async () => {
+      const transport = { fetch: pagedFetchMock() };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchGitHubReleases({ perPage: 10, sinceVersion: "1.0.24" });
+
+      expect(result).toHaveLength(25);
+      expect(result[24]!.tagName).toBe("v1.0.25");
+      expect(transport.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should stop at the first older tag when the cursor tag was never released", async () => {
+      const transport = { fetch: pagedFetchMock() };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchGitHubReleases({
+        perPage: 10,
+        sinceVersion: "v1.0.44-beta.1",
+      });
+
+      expect(result.map((r) => r.tagName)).toEqual([
+        "v1.0.49",
+        "v1.0.48",
+        "v1.0.47",
+        "v1.0.46",
+        "v1.0.45",
+        "v1.0.44",
+      ]);
+    });
+
+    it("should still apply an explicit limit alongside a cursor", async () => {
+      fetcher = new DocsFetcher({ retryPolicy, transport: { fetch: pagedFetchMock() } });
+
+      const result = await fetcher.fetchGitHubReleases({ limit: 3, sinceVersion: "1.0.20" });
+
+      expect(result).toHaveLength(3);
+    });
+
+    it("should return everything when no cursor matches", async () => {
+      mockPagedFetch();
+
+      const result = await fetcher.fetchGitHubReleases({
+        limit: 100,
+        perPage: 10,
+        sinceVersion: "v0.9.0",
+      });
+
+      expect(result).toHaveLength(30);
+    });
+
+    it("should throw when a later page fails", async () => {
+      let calls = 0;
+      transportFetch = mock(() => {
+        calls++;
+        if (calls === 1) {
+          return Promise.resolve(
+            new Response(JSON.stringify(pages[0]), {
+              status: 200,
+              headers: { Link: `<${releasesUrl}?page=2>; rel="next"` },
+            })
+          );
+        }
+        return Promise.resolve(new Response("Forbidden", { status: 403 }));
+      });
+
+      expect(fetcher.fetchGitHubReleases({ limit: 50 })).rejects.toThrow(
+        "Failed to fetch GitHub releases: 403"
+      );
+    });
+  });
+
+  describe("transport", () => {
+    it("should send requests through the injected transport", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response("# Docs", { status: 200 }))),
+      };
+      const globalFetch = spyOn(globalThis, "fetch");
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchOfficialDocs();
+
+      expect(result.content).toBe("# Docs");
+      expect(transport.fetch).toHaveBeenCalledWith(
+        "https://code.claude.com/docs/llms.txt",
+        expect.any(Object)
+      );
+      expect(globalFetch).not.toHaveBeenCalled();
+      globalFetch.mockRestore();
+    });
+  });
+
+  describe("fetchSource", () => {
+    const source = createDocSource({
+      id: "agent-sdk",
+      name: "Agent SDK docs",
+      url: "https://example.com/agent-sdk/llms.txt",
+    });
+
+    it("should fetch a registered source and tag it with the source id", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response("# Agent SDK", { status: 200 }))),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchSource(source);
+
+      expect(transport.fetch).toHaveBeenCalledWith(source.url, expect.any(Object));
+      expect(result.source).toBe("agent-sdk");
+      expect(result.url).toBe(source.url);
+    });
+
+    it("should name the source in errors", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response("Not Found", { status: 404 }))),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      await expect(fetcher.fetchSource(source)).rejects.toThrow(
+        "Failed to fetch Agent SDK docs: 404"
+      );
+    });
+  });
+
+  describe("fetchChangelog", () => {
+    it("should fetch the repository CHANGELOG", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response("## 1.0.40\n\n- Item", { status: 200 }))),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchChangelog();
+
+      expect(result.url).toBe(
+        "https://raw.githubusercontent.com/anthropics/claude-code/main/CHANGELOG.md"
+      );
+      expect(result.content).toContain("## 1.0.40");
+      expect(result.fetchedAt).toBeInstanceOf(Date);
+    });
+
+    it("should fall back to the docs changelog page", async () => {
+      const transport = {
+        fetch: mock((url: string) =>
+          Promise.resolve(
+            url.includes("raw.githubusercontent.com")
+              ? new Response("Not Found", { status: 404 })
+              : new Response("# Changelog", { status: 200 })
+          )
+        ),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const result = await fetcher.fetchChangelog();
+
+      expect(result.url).toBe("https://code.claude.com/docs/en/changelog.md");
+      expect(result.content).toBe("# Changelog");
+    });
+
+    it("should throw when every source fails", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response("Not Found", { status: 404 }))),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      await expect(fetcher.fetchChangelog()).rejects.toThrow("Failed to fetch changelog: 404");
+    });
+  });
+
+  describe("retries", () => {
+    it("should retry transient server errors", async () => {
+      let calls = 0;
+      transportFetch = mock(() => {
+        calls++;
+        return Promise.resolve(
+          calls < 3
+            ? new Response("Bad Gateway", { status: 502 })
+            : new Response("# Docs", { status: 200 })
+        );
+      });
+
+      const result = await fetcher.fetchOfficialDocs();
+
+      expect(result.content).toBe("# Docs");
+      expect(calls).toBe(3);
+    });
+
+    it("should retry network errors", async () => {
+      let calls = 0;
+      transportFetch = mock(() => {
+        calls++;
+        return calls === 1
+          ? Promise.reject(new Error("ECONNRESET"))
+          : Promise.resolve(new Response("[]", { status: 200 }));
+      });
+
+      const result = await fetcher.fetchGitHubReleases();
+
+      expect(result).toEqual([]);
+      expect(calls).toBe(2);
+    });
+
+    it("should throw RateLimitError when the GitHub rate limit is exhausted", async () => {
+      const resetSeconds = Math.floor(Date.now() / 1000) + 3600;
+      transportFetch = mock(() =>
+        Promise.resolve(
+          new Response("rate limited", {
+            status: 403,
+            headers: {
+              "X-RateLimit-Remaining": "0",
+              "X-RateLimit-Reset": String(resetSeconds),
+            },
+          })
+        )
+      );
+
+      expect(fetcher.fetchGitHubReleases()).rejects.toBeInstanceOf(RateLimitError);
+    });
+  });
+
+  describe("conditional requests", () => {
+    const testCacheDir = "/tmp/phoenixlab-docs-fetcher-validators-test";
+    let store: HttpValidatorStore;
+
+    beforeEach(async () => {
+      await rm(testCacheDir, { recursive: true, force: true });
+      store = new HttpValidatorStore(testCacheDir);
+      fetcher = new DocsFetcher({ validatorStore: store, retryPolicy, transport: stubTransport });
+    });
+
+    afterEach(async () => {
+      await rm(testCacheDir, { recursive: true, force: true });
+    });
+
+    it("should record validators from a successful docs fetch", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(
+          new Response("# Docs", { status: 200, headers: { ETag: '"docs-v1"' } })
+        )
+      );
+
+      await fetcher.fetchOfficialDocs();
+      await fetcher.commitValidators("https://code.claude.com/docs/llms.txt");
+
+      expect(await store.get("https://code.claude.com/docs/llms.txt")).toEqual({
+        etag: '"docs-v1"',
+      });
+    });
+
+    it("should not record validators until they are committed", async () => {
+      const transport: HttpTransport = {
+        fetch: mock(() =>
+          Promise.resolve(new Response("# Docs", { status: 200, headers: { ETag: '"docs-v1"' } }))
+        ),
+      };
+      fetcher = new DocsFetcher({ validatorStore: store, retryPolicy, transport });
+
+      await fetcher.fetchOfficialDocs();
+
+      expect(await store.get("https://code.claude.com/docs/llms.txt")).toBeNull();
+    });
+
+    it("should commit validators of query variants of a URL", async () => {
+      const releasesUrl = "https://api.github.com/repos/anthropics/claude-code/releases";
+      const transport: HttpTransport = {
+        fetch: mock(() =>
+          Promise.resolve(new Response("[]", { status: 200, headers: { ETag: '"releases-v1"' } }))
+        ),
+      };
+      fetcher = new DocsFetcher({ validatorStore: store, retryPolicy, transport });
+
+      await fetcher.fetchGitHubReleases({ perPage: 5 });
+      await fetcher.commitValidators(releasesUrl);
+
+      expect((await store.get(`${releasesUrl}?per_page=5`))?.etag).toBe('"releases-v1"');
+    });
+
+    it("should send stored validators and return null on 304", async () => {
+      await store.record(
+        "https://code.claude.com/docs/llms.txt",
+        new Response("", {
+          headers: {
+            ETag: '"docs-v1"',
+            "Last-Modified": "Wed, 04 Feb 2026 10:00:00 GMT",
+          },
+        })
+      );
+      const fetchMock = mock((_url: string, _init?: RequestInit) =>
+        Promise.resolve(new Response(null, { status: 304 }))
+      );
+      transportFetch = fetchMock;
+
+      const result = await fetcher.fetchOfficialDocsIfModified();
+
+      expect(result).toBeNull();
+      const headers = fetchMock.mock.calls[0]![1]!.headers as Record<string, string>;
+      expect(headers["If-None-Match"]).toBe('"docs-v1"');
+      expect(headers["If-Modified-Since"]).toBe("Wed, 04 Feb 2026 10:00:00 GMT");
+    });
+
+    it("should return docs when the server reports a change", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(
+          new Response("# Updated", { status: 200, headers: { ETag: '"docs-v2"' } })
+        )
+      );
+
+      const result = await fetcher.fetchOfficialDocsIfModified();
+
+      expect(result?.content).toBe("# Updated");
+      await fetcher.commitValidators("https://code.claude.com/docs/llms.txt");
+      expect((await store.get("https://code.claude.com/docs/llms.txt"))?.etag).toBe('"docs-v2"');
+    });
+
+    it("should not send validators from the unconditional fetch methods", async () => {
+      await store.record(
+        "https://code.claude.com/docs/llms.txt",
+        new Response("", { headers: { ETag: '"docs-v1"' } })
+      );
+      const fetchMock = mock((_url: string, _init?: RequestInit) =>
+        Promise.resolve(new Response("# Docs", { status: 200 }))
+      );
+      transportFetch = fetchMock;
+
+      await fetcher.fetchOfficialDocs();
+
+      const headers = fetchMock.mock.calls[0]![1]!.headers as Record<string, string>;
+      expect(headers["If-None-Match"]).toBeUndefined();
+    });
+
+    it("should return null for unchanged releases", async () => {
+      await store.record(
+        "https://api.github.com/repos/anthropics/claude-code/releases",
+        new Response("", { headers: { ETag: '"releases-v1"' } })
+      );
+      transportFetch = mock(() =>
+        Promise.resolve(new Response(null, { status: 304 }))
+      );
+
+      const result = await fetcher.fetchGitHubReleasesIfModified();
+
+      expect(result).toBeNull();
+    });
+
+    it("should still throw on errors from conditional requests", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(new Response("Server Error", { status: 500 }))
+      );
+
+      expect(fetcher.fetchGitHubReleasesIfModified()).rejects.toThrow(
+        "Failed to fetch GitHub releases: 500"
+      );
+    });
+  });
+
   describe("fetchAll", () => {
     it("should fetch both docs and releases", async () => {
       const mockContent = "# Claude Code\n\nDocs content";
@@ -137,7 +678,7 @@ describe("DocsFetcher", () => {
       ];
 
       let callCount = 0;
-      globalThis.fetch = mock((url: string) => {
+      transportFetch = mock((url: string) => {
         callCount++;
         if (url.includes("code.claude.com")) {
           return Promise.resolve(new Response(mockContent, { status: 200 }));
@@ -147,9 +688,91 @@ describe("DocsFetcher", () => {
 
       const result = await fetcher.fetchAll();
 
-      expect(result.docs.content).toBe(mockContent);
+      expect(result.docs!.content).toBe(mockContent);
       expect(result.releases).toHaveLength(1);
       expect(callCount).toBe(2);
     });
+
+    it("should keep fetched docs when releases fail", async () => {
+      const transport = {
+        fetch: mock((url: string) =>
+          Promise.resolve(
+            url.includes("code.claude.com")
+              ? new Response("# Docs", { status: 200 })
+              : new Response("Server Error", { status: 500 })
+          )
+        ),
+      };
+      fetcher = new DocsFetcher({ retryPolicy: new RetryPolicy({ maxAttempts: 1 }), transport });
+
+      const report = await fetcher.fetchAll();
+
+      expect(report.docs!.content).toBe("# Docs");
+      expect(report.releases).toBeNull();
+      const [docs, releases] = report.sources;
+      expect(docs).toMatchObject({
+        source: "llms.txt",
+        status: "fetched",
+        httpStatus: 200,
+        bytes: 6,
+      });
+      expect(docs!.durationMs).toBeGreaterThanOrEqual(0);
+      expect(releases).toMatchObject({
+        source: "releases",
+        status: "failed",
+        httpStatus: 500,
+        error: "Failed to fetch GitHub releases: 500",
+      });
+    });
+
+    it("should report unchanged sources for conditional fetches", async () => {
+      const transport = {
+        fetch: mock(() => Promise.resolve(new Response(null, { status: 304 }))),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const report = await fetcher.fetchAll({ conditional: true, releases: false });
+
+      expect(report.docs).toBeNull();
+      expect(report.sources).toHaveLength(1);
+      expect(report.sources[0]!.status).toBe("unchanged");
+    });
+
+    it("should fail requests that exceed the timeout", async () => {
+      const transport = {
+        fetch: (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init!.signal!.addEventListener("abort", () => reject(init!.signal!.reason));
+          }),
+      };
+      fetcher = new DocsFetcher({
+        retryPolicy: new RetryPolicy({ maxAttempts: 1 }),
+        transport,
+        timeoutMs: 20,
+      });
+
+      const report = await fetcher.fetchAll({ releases: false });
+
+      expect(report.sources[0]!.status).toBe("failed");
+      expect(report.sources[0]!.error).toBe(
+        "Request to https://code.claude.com/docs/llms.txt timed out after 20ms"
+      );
+    });
+
+    it("should stop when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const transport = {
+        fetch: mock((_url: string, init?: RequestInit) => {
+          controller.abort();
+          return Promise.reject(init!.signal!.reason);
+        }),
+      };
+      fetcher = new DocsFetcher({ retryPolicy, transport });
+
+      const report = await fetcher.fetchAll({ signal: controller.signal });
+
+      expect(report.sources.every((source) => source.status === "failed")).toBe(true);
+      expect(transport.fetch.mock.calls.length).toBeLessThanOrEqual(2);
+    });
   });
 });
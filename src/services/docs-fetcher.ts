@@ -1,6 +1,13 @@
+import type { HttpValidatorStore } from "./http-validator-store.ts";
+import { RetryPolicy } from "./retry-policy.ts";
+import { FetchTransport, type HttpTransport } from "./http-transport.ts";
+import { CLAUDE_CODE_DOCS_SOURCE, type DocSource } from "./doc-sources.ts";
+import { compareSemVer, parseSemVer, type SemVer } from "./semver.ts";
+
 export interface RawDocs {
   content: string;
-  source: "llms.txt";
+  /** Id of the DocSource that was fetched. */
+  source: string;
   url: string;
   fetchedAt: Date;
 }
@@ -21,70 +28,544 @@ interface GitHubRelease {
   html_url: string;
 }
 
-export interface FetchAllResult {
-  docs: RawDocs;
-  releases: Release[];
+export interface RawChangelog {
+  content: string;
+  url: string;
+  fetchedAt: Date;
+}
+
+export interface DocsFetcherOptions {
+  /** Enables conditional requests when provided. */
+  validatorStore?: HttpValidatorStore;
+  retryPolicy?: RetryPolicy;
+  transport?: HttpTransport;
+  /** Token sent to the GitHub API; see resolveGitHubToken. */
+  githubToken?: string;
+  /** GitHub API base URL, e.g. `https://github.example.com/api/v3` for Enterprise. */
+  githubApiUrl?: string;
+  /** Default per-request timeout; unset means no timeout. */
+  timeoutMs?: number;
+}
+
+export interface RequestOptions {
+  /** Aborts the request and any pending retries. */
+  signal?: AbortSignal;
+  /** Per-request timeout, overriding the fetcher default. */
+  timeoutMs?: number;
+}
+
+export class GitHubAuthError extends Error {
+  constructor(
+    public url: string,
+    public status: number,
+    public authenticated: boolean
+  ) {
+    super(
+      `Failed to fetch GitHub releases: ${status} ` +
+        (authenticated
+          ? `(token rejected by ${url}; check GITHUB_TOKEN / GH_TOKEN)`
+          : `(${url} requires authentication; set GITHUB_TOKEN or GH_TOKEN)`)
+    );
+    this.name = "GitHubAuthError";
+  }
+}
+
+export interface ReleaseFetchOptions extends RequestOptions {
+  /**
+   * Maximum number of releases to return across all pages. Defaults to 20,
+   * or unlimited when a sinceVersion / sinceDate cursor is given.
+   */
+  limit?: number;
+  /** Page size sent as `per_page` (GitHub allows up to 100). */
+  perPage?: number;
+  /** Stop at the first tag at or below this version; only newer releases are returned. */
+  sinceVersion?: string;
+  /** Stop at the first release published at or before this date. */
+  sinceDate?: Date;
+}
+
+export interface FetchAllOptions extends RequestOptions {
+  releaseLimit?: number;
+  /** Set to false to skip the official docs. */
+  docs?: boolean;
+  /** Set to false to skip GitHub releases. */
+  releases?: boolean;
+  /** Revalidate with stored validators; unchanged sources are reported as such. */
+  conditional?: boolean;
 }
 
-const OFFICIAL_DOCS_URL = "https://code.claude.com/docs/llms.txt";
-const GITHUB_RELEASES_URL = "https://api.github.com/repos/anthropics/claude-code/releases";
+export type SourceFetchStatus = "fetched" | "unchanged" | "failed";
+
+export interface SourceFetchReport {
+  /** Doc source id, or "releases". */
+  source: string;
+  url: string;
+  status: SourceFetchStatus;
+  /** Status of the last HTTP response, if one was received. */
+  httpStatus?: number;
+  durationMs: number;
+  bytes: number;
+  error?: string;
+}
+
+export interface FetchReport {
+  /** Null when the docs were skipped, unchanged or failed. */
+  docs: RawDocs | null;
+  /** Null when the releases were skipped, unchanged or failed. */
+  releases: Release[] | null;
+  sources: SourceFetchReport[];
+}
+
+// Filled in by request() and the readers while fetchAll measures a source
+interface FetchTracker {
+  httpStatus?: number;
+  bytes: number;
+}
+
+interface TrackedRequestOptions extends RequestOptions {
+  tracker?: FetchTracker;
+}
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+export const GITHUB_RELEASES_PATH = "/repos/anthropics/claude-code/releases";
+const CHANGELOG_URLS = [
+  "https://raw.githubusercontent.com/anthropics/claude-code/main/CHANGELOG.md",
+  "https://code.claude.com/docs/en/changelog.md",
+];
 const DEFAULT_RELEASE_LIMIT = 20;
 
+/**
+ * Reads a GitHub token from GITHUB_TOKEN, falling back to GH_TOKEN.
+ */
+export function resolveGitHubToken(
+  env: Record<string, string | undefined> = process.env
+): string | undefined {
+  return env.GITHUB_TOKEN?.trim() || env.GH_TOKEN?.trim() || undefined;
+}
+
 export class DocsFetcher {
-  async fetchOfficialDocs(): Promise<RawDocs> {
-    const response = await fetch(OFFICIAL_DOCS_URL, {
-      headers: {
-        "User-Agent": "phoenixlab-plugin-dev/0.1.0",
-      },
-    });
+  private validatorStore?: HttpValidatorStore;
+  private retryPolicy: RetryPolicy;
+  private transport: HttpTransport;
+  private githubToken?: string;
+  private githubReleasesUrl: string;
+  /** The token is only ever sent to this origin. */
+  private githubApiOrigin: string;
+  private timeoutMs?: number;
+  /** Successful responses whose validators wait for commitValidators(). */
+  private pendingValidators = new Map<string, Response>();
+
+  constructor(options: DocsFetcherOptions = {}) {
+    this.validatorStore = options.validatorStore;
+    this.retryPolicy = options.retryPolicy ?? new RetryPolicy();
+    this.transport = options.transport ?? new FetchTransport();
+    this.githubToken = options.githubToken;
+    this.githubReleasesUrl =
+      (options.githubApiUrl ?? DEFAULT_GITHUB_API_URL).replace(/\/+$/, "") +
+      GITHUB_RELEASES_PATH;
+    this.githubApiOrigin = new URL(this.githubReleasesUrl).origin;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  async fetchOfficialDocs(options: RequestOptions = {}): Promise<RawDocs> {
+    return this.fetchSource(CLAUDE_CODE_DOCS_SOURCE, options);
+  }
+
+  /**
+   * Conditional variant of fetchOfficialDocs.
+   * Returns null when the server reports the docs unchanged (304).
+   */
+  async fetchOfficialDocsIfModified(options: RequestOptions = {}): Promise<RawDocs | null> {
+    return this.fetchSourceIfModified(CLAUDE_CODE_DOCS_SOURCE, options);
+  }
+
+  async fetchSource(source: DocSource, options: RequestOptions = {}): Promise<RawDocs> {
+    const response = await this.request(source.url, this.docsHeaders(), false, options);
+    return this.readDocs(response, source, options);
+  }
+
+  /**
+   * Conditional variant of fetchSource.
+   * Returns null when the server reports the source unchanged (304).
+   */
+  async fetchSourceIfModified(
+    source: DocSource,
+    options: RequestOptions = {}
+  ): Promise<RawDocs | null> {
+    const response = await this.request(source.url, this.docsHeaders(), true, options);
+
+    if (response.status === 304) {
+      return null;
+    }
+
+    return this.readDocs(response, source, options);
+  }
+
+  /**
+   * Fetches releases newest-first, following `Link` pagination until the
+   * limit or the sinceVersion / sinceDate cursor is reached.
+   */
+  async fetchGitHubReleases(
+    options: number | ReleaseFetchOptions = DEFAULT_RELEASE_LIMIT
+  ): Promise<Release[]> {
+    const fetchOptions = this.normalizeReleaseOptions(options);
+    const response = await this.request(
+      this.releasesUrl(fetchOptions),
+      this.releasesHeaders(),
+      false,
+      fetchOptions
+    );
+    return this.readGitHubReleases(response, fetchOptions);
+  }
+
+  /**
+   * Conditional variant of fetchGitHubReleases; only the first page is revalidated.
+   * Returns null when the server reports the releases unchanged (304).
+   */
+  async fetchGitHubReleasesIfModified(
+    options: number | ReleaseFetchOptions = DEFAULT_RELEASE_LIMIT
+  ): Promise<Release[] | null> {
+    const fetchOptions = this.normalizeReleaseOptions(options);
+    const response = await this.request(
+      this.releasesUrl(fetchOptions),
+      this.releasesHeaders(),
+      true,
+      fetchOptions
+    );
+
+    if (response.status === 304) {
+      return null;
+    }
+
+    return this.readGitHubReleases(response, fetchOptions);
+  }
+
+  /**
+   * Records the validators of the responses fetched from `url`, including
+   * its query variants. Call this only once the fetched content is cached,
+   * so a failed parse or write is refetched in full instead of getting a 304.
+   */
+  async commitValidators(url: string): Promise<void> {
+    for (const [pendingUrl, response] of this.pendingValidators) {
+      if (pendingUrl === url || pendingUrl.startsWith(`${url}?`)) {
+        this.pendingValidators.delete(pendingUrl);
+        await this.validatorStore?.record(pendingUrl, response);
+      }
+    }
+  }
+
+  /**
+   * Fetches the full CHANGELOG, preferring the repository file and
+   * falling back to the changelog page listed in llms.txt.
+   */
+  async fetchChangelog(options: RequestOptions = {}): Promise<RawChangelog> {
+    let lastStatus = 0;
+
+    for (const url of CHANGELOG_URLS) {
+      const response = await this.request(url, this.docsHeaders(), false, options);
+
+      if (response.ok) {
+        return {
+          content: await response.text(),
+          url,
+          fetchedAt: new Date(),
+        };
+      }
+
+      lastStatus = response.status;
+      await response.body?.cancel();
+    }
+
+    throw new Error(`Failed to fetch changelog: ${lastStatus}`);
+  }
+
+  /**
+   * Fetches the official docs and releases side by side. A failing source
+   * does not discard the other; every attempt is described in the report.
+   */
+  async fetchAll(options: number | FetchAllOptions = {}): Promise<FetchReport> {
+    const {
+      releaseLimit,
+      docs: includeDocs = true,
+      releases: includeReleases = true,
+      conditional = false,
+      ...requestOptions
+    }: FetchAllOptions = typeof options === "number" ? { releaseLimit: options } : options;
 
+    const [docs, releases] = await Promise.all([
+      includeDocs
+        ? this.measure(CLAUDE_CODE_DOCS_SOURCE.id, CLAUDE_CODE_DOCS_SOURCE.url, (tracker) => {
+            const docsOptions: TrackedRequestOptions = { ...requestOptions, tracker };
+            return conditional
+              ? this.fetchOfficialDocsIfModified(docsOptions)
+              : this.fetchOfficialDocs(docsOptions);
+          })
+        : null,
+      includeReleases
+        ? this.measure("releases", this.githubReleasesUrl, (tracker) => {
+            const releaseOptions: ReleaseFetchOptions & TrackedRequestOptions = {
+              ...requestOptions,
+              limit: releaseLimit,
+              tracker,
+            };
+            return conditional
+              ? this.fetchGitHubReleasesIfModified(releaseOptions)
+              : this.fetchGitHubReleases(releaseOptions);
+          })
+        : null,
+    ]);
+
+    return {
+      docs: docs?.value ?? null,
+      releases: releases?.value ?? null,
+      sources: [docs?.report, releases?.report].filter(
+        (report): report is SourceFetchReport => report !== undefined
+      ),
+    };
+  }
+
+  /**
+   * Runs one fetch, capturing its outcome instead of throwing.
+   */
+  private async measure<T>(
+    source: string,
+    url: string,
+    run: (tracker: FetchTracker) => Promise<T | null>
+  ): Promise<{ value: T | null; report: SourceFetchReport }> {
+    const tracker: FetchTracker = { bytes: 0 };
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+
+    try {
+      const value = await run(tracker);
+      return {
+        value,
+        report: {
+          source,
+          url,
+          status: value === null ? "unchanged" : "fetched",
+          httpStatus: tracker.httpStatus,
+          durationMs: elapsed(),
+          bytes: tracker.bytes,
+        },
+      };
+    } catch (error) {
+      return {
+        value: null,
+        report: {
+          source,
+          url,
+          status: "failed",
+          httpStatus: tracker.httpStatus,
+          durationMs: elapsed(),
+          bytes: tracker.bytes,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  private async request(
+    url: string,
+    headers: Record<string, string>,
+    conditional: boolean,
+    options: TrackedRequestOptions = {}
+  ): Promise<Response> {
+    const conditionalHeaders =
+      conditional && this.validatorStore
+        ? await this.validatorStore.getConditionalHeaders(url)
+        : {};
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    let response: Response;
+    try {
+      response = await this.retryPolicy.execute(
+        url,
+        () =>
+          this.transport.fetch(url, {
+            headers: { ...headers, ...conditionalHeaders },
+            signal: this.requestSignal(options.signal, timeoutMs),
+          }),
+        options.signal
+      );
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(`Request to ${url} timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    if (options.tracker) {
+      options.tracker.httpStatus = response.status;
+    }
+
+    if (response.ok && this.validatorStore) {
+      this.pendingValidators.set(url, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Combines the caller's signal with a fresh timeout for each attempt.
+   */
+  private requestSignal(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+    const signals: AbortSignal[] = [];
+
+    if (signal) {
+      signals.push(signal);
+    }
+    if (timeoutMs !== undefined) {
+      signals.push(AbortSignal.timeout(timeoutMs));
+    }
+
+    return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+  }
+
+  private async readDocs(
+    response: Response,
+    source: DocSource,
+    options: TrackedRequestOptions
+  ): Promise<RawDocs> {
     if (!response.ok) {
-      throw new Error(`Failed to fetch official docs: ${response.status}`);
+      throw new Error(`Failed to fetch ${source.name}: ${response.status}`);
     }
 
     const content = await response.text();
+    if (options.tracker) {
+      options.tracker.bytes += Buffer.byteLength(content);
+    }
 
     return {
       content,
-      source: "llms.txt",
-      url: OFFICIAL_DOCS_URL,
+      source: source.id,
+      url: source.url,
       fetchedAt: new Date(),
     };
   }
 
-  async fetchGitHubReleases(limit: number = DEFAULT_RELEASE_LIMIT): Promise<Release[]> {
-    const response = await fetch(GITHUB_RELEASES_URL, {
-      headers: {
-        "User-Agent": "phoenixlab-plugin-dev/0.1.0",
-        Accept: "application/vnd.github.v3+json",
-      },
-    });
-
-    if (response.status === 404) {
+  private async readGitHubReleases(
+    firstPage: Response,
+    options: ReleaseFetchOptions & TrackedRequestOptions
+  ): Promise<Release[]> {
+    if (firstPage.status === 404) {
       return [];
     }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch GitHub releases: ${response.status}`);
+    const hasCursor = options.sinceVersion !== undefined || options.sinceDate !== undefined;
+    const limit = options.limit ?? (hasCursor ? Infinity : DEFAULT_RELEASE_LIMIT);
+    const sinceTag = options.sinceVersion ? this.normalizeTag(options.sinceVersion) : null;
+    const sinceSemVer = options.sinceVersion ? parseSemVer(options.sinceVersion) : null;
+    const releases: Release[] = [];
+    let response: Response | null = firstPage;
+
+    while (response) {
+      if (response.status === 401 || response.status === 403) {
+        throw new GitHubAuthError(this.githubReleasesUrl, response.status, !!this.githubToken);
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch GitHub releases: ${response.status}`);
+      }
+
+      const body = await response.text();
+      if (options.tracker) {
+        options.tracker.bytes += Buffer.byteLength(body);
+      }
+      const data = JSON.parse(body) as GitHubRelease[];
+
+      for (const release of data) {
+        if (releases.length >= limit) {
+          return releases;
+        }
+        if (sinceTag && this.isAtOrBefore(release.tag_name, sinceTag, sinceSemVer)) {
+          return releases;
+        }
+
+        const publishedAt = new Date(release.published_at);
+        if (options.sinceDate && publishedAt.getTime() <= options.sinceDate.getTime()) {
+          return releases;
+        }
+
+        releases.push({
+          tagName: release.tag_name,
+          name: release.name,
+          body: release.body,
+          publishedAt,
+          url: release.html_url,
+        });
+      }
+
+      const nextUrl = this.parseNextLink(response.headers.get("Link"));
+      response =
+        nextUrl && releases.length < limit
+          ? await this.request(nextUrl, this.releasesHeaders(nextUrl), false, options)
+          : null;
     }
 
-    const data: GitHubRelease[] = await response.json();
+    return releases;
+  }
 
-    return data.slice(0, limit).map((release) => ({
-      tagName: release.tag_name,
-      name: release.name,
-      body: release.body,
-      publishedAt: new Date(release.published_at),
-      url: release.html_url,
-    }));
+  private normalizeReleaseOptions(options: number | ReleaseFetchOptions): ReleaseFetchOptions {
+    return typeof options === "number" ? { limit: options } : options;
   }
 
-  async fetchAll(releaseLimit?: number): Promise<FetchAllResult> {
-    const [docs, releases] = await Promise.all([
-      this.fetchOfficialDocs(),
-      this.fetchGitHubReleases(releaseLimit),
-    ]);
+  private releasesUrl(options: ReleaseFetchOptions): string {
+    return options.perPage
+      ? `${this.githubReleasesUrl}?per_page=${options.perPage}`
+      : this.githubReleasesUrl;
+  }
+
+  private normalizeTag(tag: string): string {
+    return tag.trim().replace(/^v/i, "");
+  }
+
+  /**
+   * Whether a release tag is the sinceVersion cursor or older. Tags that are
+   * not semver only match the cursor exactly.
+   */
+  private isAtOrBefore(tag: string, sinceTag: string, sinceSemVer: SemVer | null): boolean {
+    const version = parseSemVer(tag);
+    if (version && sinceSemVer) {
+      return compareSemVer(version, sinceSemVer) <= 0;
+    }
+    return this.normalizeTag(tag) === sinceTag;
+  }
+
+  /**
+   * Extracts the rel="next" URL from a GitHub `Link` header.
+   */
+  private parseNextLink(header: string | null): string | null {
+    if (!header) {
+      return null;
+    }
+
+    for (const part of header.split(",")) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+      if (match?.[1]) {
+        return match[1];
+      }
+    }
+
+    return null;
+  }
+
+  private docsHeaders(): Record<string, string> {
+    return {
+      "User-Agent": "phoenixlab-plugin-dev/0.1.0",
+    };
+  }
+
+  /** Releases headers; the token is left out for URLs outside the GitHub API origin. */
+  private releasesHeaders(url: string = this.githubReleasesUrl): Record<string, string> {
+    const headers: Record<string, string> = {
+      "User-Agent": "phoenixlab-plugin-dev/0.1.0",
+      Accept: "application/vnd.github.v3+json",
+    };
+
+    if (this.githubToken && new URL(url).origin === this.githubApiOrigin) {
+      headers.Authorization = `Bearer ${this.githubToken}`;
+    }
 
-    return { docs, releases };
+    return headers;
   }
 }
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from "bun:test";
 import {
   DocsParser,
+  slugFromUrl,
+  sortReleases,
   type ParsedContent,
+  type ParsedRelease,
   type Feature,
   type Section,
 } from "./docs-parser.ts";
@@ -127,6 +130,149 @@ Import and use the module.
       expect(installSection!.content).toContain("Run npm install");
       expect(installSection!.level).toBe(2);
     });
+
+    it("should not start sections at comments inside code fences", () => {
+      const content = `# Claude Code
+
+## Install
+
+\`\`\`bash
+## comment
+npm install
+\`\`\`
+
+## Usage
+
+Run it.
+`;
+      const result = parser.parseDocs({
+        content,
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15"),
+      });
+
+      expect(result.sections.map((s) => s.title)).toEqual(["Install", "Usage"]);
+      expect(result.sections[0]!.content).toContain("## comment");
+    });
+  });
+
+  describe("parseIndex", () => {
+    const LLMS_TXT = `# Claude Code
+
+## Docs
+
+- [Hooks reference](https://code.claude.com/docs/en/hooks.md): Hook events and configuration.
+- [SDK overview](https://code.claude.com/docs/en/sdk/overview.md)
+
+## Optional
+
+- [Changelog](https://code.claude.com/docs/en/changelog.md): Release history
+- [Hooks reference](https://code.claude.com/docs/en/hooks.md): Duplicate entry.
+`;
+
+    it("should parse links into typed index entries", () => {
+      const index = parser.parseIndex(LLMS_TXT);
+
+      expect(index).toHaveLength(3);
+      expect(index[0]).toEqual({
+        title: "Hooks reference",
+        url: "https://code.claude.com/docs/en/hooks.md",
+        slug: "hooks",
+        description: "Hook events and configuration.",
+        group: "Docs",
+      });
+    });
+
+    it("should group entries under their nearest heading", () => {
+      const index = parser.parseIndex(LLMS_TXT);
+
+      expect(index.map((e) => e.group)).toEqual(["Docs", "Docs", "Optional"]);
+    });
+
+    it("should leave description undefined when missing", () => {
+      const index = parser.parseIndex(LLMS_TXT);
+
+      expect(index[1]!.slug).toMatch(/^sdk-overview-[0-9a-f]{8}$/);
+      expect(index[1]!.description).toBeUndefined();
+    });
+
+    it("should be exposed on parsed docs", () => {
+      const result = parser.parseDocs({
+        content: LLMS_TXT,
+        source: "llms.txt",
+        url: "https://code.claude.com/docs/llms.txt",
+        fetchedAt: new Date("2024-01-15"),
+      });
+
+      expect(result.index).toHaveLength(3);
+    });
+  });
+
+  describe("slugFromUrl", () => {
+    it("should strip the docs prefix and extension", () => {
+      expect(slugFromUrl("https://code.claude.com/docs/en/sub-agents.md")).toBe("sub-agents");
+      expect(slugFromUrl("https://code.claude.com/docs/en/sdk/overview.md")).toMatch(
+        /^sdk-overview-[0-9a-f]{8}$/
+      );
+    });
+
+    it("should give paths that flatten to the same slug different keys", () => {
+      const nested = slugFromUrl("https://code.claude.com/docs/en/foo/bar.md");
+      const dashed = slugFromUrl("https://code.claude.com/docs/en/foo-bar.md");
+      const upper = slugFromUrl("https://code.claude.com/docs/en/Foo-Bar.md");
+
+      expect(dashed).toBe("foo-bar");
+      expect(new Set([nested, dashed, upper]).size).toBe(3);
+    });
+  });
+
+  describe("parsePage", () => {
+    const url = "https://code.claude.com/docs/en/hooks.md";
+
+    it("should separate frontmatter from the body", () => {
+      const page = parser.parsePage(
+        "---\ntitle: Hooks reference\ndescription: Run commands on events.\n---\n" +
+          "\n# Hooks\n\nBody.",
+        url
+      );
+
+      expect(page.title).toBe("Hooks reference");
+      expect(page.description).toBe("Run commands on events.");
+      expect(page.frontmatter).toEqual({
+        title: "Hooks reference",
+        description: "Run commands on events.",
+      });
+      expect(page.body).toBe("# Hooks\n\nBody.");
+    });
+
+    it("should derive the canonical URL from the fetch URL or frontmatter", () => {
+      expect(parser.parsePage("# Hooks", url).canonicalUrl).toBe(
+        "https://code.claude.com/docs/en/hooks"
+      );
+      const page = parser.parsePage("---\ncanonical: /docs/en/hooks-guide\n---\n", url);
+
+      expect(page.canonicalUrl).toBe("https://code.claude.com/docs/en/hooks-guide");
+    });
+
+    it("should fall back to the h1 and its summary line", () => {
+      const page = parser.parsePage(
+        "# Hooks reference\n\n> Run shell commands\n> on events.\n\n## Events",
+        url
+      );
+
+      expect(page.title).toBe("Hooks reference");
+      expect(page.description).toBe("Run shell commands on events.");
+      expect(page.frontmatter).toEqual({});
+    });
+
+    it("should fall back to the slug and ignore malformed frontmatter", () => {
+      const page = parser.parsePage("---\ntitle: [unclosed\n---\nBody", url);
+
+      expect(page.title).toBe("hooks");
+      expect(page.frontmatter).toEqual({});
+      expect(page.body).toBe("Body");
+    });
   });
 
   describe("parseReleases", () => {
@@ -166,6 +312,49 @@ Import and use the module.
       expect(result[0].features.length).toBeGreaterThanOrEqual(1);
     });
 
+    it("should parse versions and sort releases newest first", () => {
+      const release = (tagName: string): Release => ({
+        tagName,
+        name: tagName,
+        body: "",
+        publishedAt: new Date("2024-01-15"),
+        url: "https://example.com",
+      });
+
+      const result = parser.parseReleases(
+        ["v1.0.9", "v1.0.10", "nightly", "v1.1.0-beta.1", "v1.1.0"].map(release)
+      );
+
+      expect(result.map((r) => r.version)).toEqual([
+        "v1.1.0",
+        "v1.1.0-beta.1",
+        "v1.0.10",
+        "v1.0.9",
+        "nightly",
+      ]);
+      expect(result[0]!.semver).toEqual({ major: 1, minor: 1, patch: 0, prerelease: [] });
+      expect(result[4]!.semver).toBeUndefined();
+    });
+
+    it("should categorise release notes", () => {
+      const releases: Release[] = [
+        {
+          tagName: "v1.0.0",
+          name: "Release",
+          body: "## What's New\n- Feature A\n\n## Bug Fixes\n- Fix 1",
+          publishedAt: new Date(),
+          url: "https://example.com",
+        },
+      ];
+
+      const result = parser.parseReleases(releases);
+
+      expect(result[0]!.changes).toEqual([
+        { type: "added", text: "Feature A" },
+        { type: "fixed", text: "Fix 1" },
+      ]);
+    });
+
     it("should handle empty releases array", () => {
       const result = parser.parseReleases([]);
 
@@ -191,6 +380,23 @@ Import and use the module.
     });
   });
 
+  describe("sortReleases", () => {
+    it("should keep non-semver tags last in their original order", () => {
+      const release = (version: string): ParsedRelease => ({
+        version,
+        name: version,
+        publishedAt: new Date("2024-01-15"),
+        url: "https://example.com",
+        features: [],
+        rawBody: "",
+      });
+
+      const sorted = sortReleases(["beta", "v1.0.0", "alpha", "v2.0.0"].map(release));
+
+      expect(sorted.map((r) => r.version)).toEqual(["v2.0.0", "v1.0.0", "beta", "alpha"]);
+    });
+  });
+
   describe("extractFeatures", () => {
     it("should extract features from markdown list", () => {
       const markdown = `
@@ -1,4 +1,8 @@
+import { createHash } from "node:crypto";
 import type { RawDocs, Release } from "./docs-fetcher.ts";
+import { MarkdownParser, type HeadingNode, type MarkdownNode } from "./markdown-parser.ts";
+import { ReleaseNotesParser, type ReleaseChange } from "./release-notes-parser.ts";
+import { compareSemVer, parseSemVer, type SemVer } from "./semver.ts";
 
 export interface Section {
   title: string;
@@ -11,25 +15,106 @@ export interface Feature {
   description?: string;
 }
 
+/** One page link from the llms.txt index. */
+export interface DocIndexEntry {
+  title: string;
+  url: string;
+  /** Cache key derived from the URL, e.g. `hooks` or `sdk-overview-<hash>`. */
+  slug: string;
+  description?: string;
+  /** Heading the link is listed under, e.g. `Docs`. */
+  group?: string;
+}
+
+/** A single documentation page with its frontmatter separated from the body. */
+export interface DocPage {
+  /** URL the page was fetched from. */
+  url: string;
+  /** Human-facing page URL: frontmatter `canonical`, else the fetch URL without `.md`. */
+  canonicalUrl: string;
+  title: string;
+  description?: string;
+  frontmatter: Record<string, unknown>;
+  /** Markdown after the frontmatter. */
+  body: string;
+}
+
 export interface ParsedContent {
   title: string;
-  source: "llms.txt";
+  /** Id of the DocSource this content came from. */
+  source: string;
   url: string;
   fetchedAt: Date;
   sections: Section[];
+  /** Page links listed in the content; absent in caches written before the index existed. */
+  index?: DocIndexEntry[];
   rawText: string;
 }
 
 export interface ParsedRelease {
+  /** Tag as published, e.g. `v1.0.40`. */
   version: string;
+  /** Parsed tag; absent for tags that are not semver. */
+  semver?: SemVer;
   name: string;
   publishedAt: Date;
   url: string;
   features: Feature[];
   rawBody: string;
+  /** Categorised release notes; absent in caches written before categorisation. */
+  changes?: ReleaseChange[];
+  /** Per-version bullets from the CHANGELOG, when available. */
+  changelog?: string[];
+}
+
+/** A page URL's path below the docs root, e.g. `.../docs/en/sdk/overview.md` → `sdk/overview`. */
+function pagePath(url: string): string {
+  return new URL(url).pathname.replace(/^\/(docs\/(en\/)?)?/, "").replace(/\.md$/, "");
+}
+
+function readableSlug(path: string): string {
+  return path
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Derives a cache key from a page URL, e.g. `.../docs/en/hooks.md` → `hooks`.
+ * Paths that do not map one-to-one, such as `sdk/overview`, get a short hash
+ * of the path (`sdk-overview-<hash>`) so they never collide with `sdk-overview`.
+ */
+export function slugFromUrl(url: string): string {
+  const path = pagePath(url);
+  const slug = readableSlug(path);
+
+  if (slug === path) {
+    return slug;
+  }
+
+  return `${slug}-${createHash("sha256").update(path).digest("hex").slice(0, 8)}`;
+}
+
+/**
+ * Sorts releases newest first by semver precedence. Releases with
+ * non-semver tags keep their relative order after the rest.
+ */
+export function sortReleases(releases: ParsedRelease[]): ParsedRelease[] {
+  return releases
+    .map((release) => ({ release, semver: release.semver ?? parseSemVer(release.version) }))
+    .sort((a, b) => {
+      if (!a.semver || !b.semver) {
+        return Number(!a.semver) - Number(!b.semver);
+      }
+      return compareSemVer(b.semver, a.semver);
+    })
+    .map(({ release }) => release);
 }
 
 export class DocsParser {
+  private markdown = new MarkdownParser();
+  private releaseNotes = new ReleaseNotesParser();
+
   parseDocs(rawDocs: RawDocs): ParsedContent {
     const { content, source, url, fetchedAt } = rawDocs;
 
@@ -40,12 +125,15 @@ export class DocsParser {
         url,
         fetchedAt,
         sections: [],
+        index: [],
         rawText: "",
       };
     }
 
-    const title = this.extractTitle(content);
-    const sections = this.extractSections(content);
+    const nodes = this.markdown.parse(content);
+    const title = this.extractTitle(nodes);
+    const sections = this.extractSections(content, nodes);
+    const index = this.indexFromNodes(nodes);
     const rawText = content;
 
     return {
@@ -54,19 +142,60 @@ export class DocsParser {
       url,
       fetchedAt,
       sections,
+      index,
       rawText,
     };
   }
 
+  /**
+   * Parses the `- [Title](url): description` link list of llms.txt,
+   * de-duplicated by URL. Each link is grouped under its nearest heading.
+   */
+  parseIndex(content: string): DocIndexEntry[] {
+    return this.indexFromNodes(this.markdown.parse(content));
+  }
+
+  /**
+   * Splits a fetched page into frontmatter and body. The title and
+   * description come from the frontmatter, falling back to the first h1
+   * and the `> summary` line under it.
+   */
+  parsePage(content: string, url: string): DocPage {
+    const nodes = this.markdown.parse(content);
+    const first = nodes[0];
+    const frontmatterNode = first?.type === "frontmatter" ? first : null;
+    const frontmatter = frontmatterNode ? this.parseFrontmatter(frontmatterNode.raw) : {};
+    const body = frontmatterNode
+      ? content.split("\n").slice(frontmatterNode.endLine).join("\n").replace(/^\n+/, "")
+      : content;
+
+    const title = this.stringField(frontmatter, "title") || this.extractTitle(nodes);
+    const canonical =
+      this.stringField(frontmatter, "canonical") ?? this.stringField(frontmatter, "canonicalUrl");
+
+    return {
+      url,
+      canonicalUrl: canonical ? new URL(canonical, url).href : url.replace(/\.md(?=$|[?#])/, ""),
+      title: title || readableSlug(pagePath(url)),
+      description: this.stringField(frontmatter, "description") ?? this.extractSummary(nodes),
+      frontmatter,
+      body,
+    };
+  }
+
   parseReleases(releases: Release[]): ParsedRelease[] {
-    return releases.map((release) => ({
+    const parsed = releases.map((release) => ({
       version: release.tagName,
+      semver: parseSemVer(release.tagName) ?? undefined,
       name: release.name,
       publishedAt: release.publishedAt,
       url: release.url,
       features: this.extractFeatures(release.body),
       rawBody: release.body,
+      changes: this.releaseNotes.parse(release.body),
     }));
+
+    return sortReleases(parsed);
   }
 
   extractFeatures(markdown: string): Feature[] {
@@ -113,53 +242,89 @@ export class DocsParser {
     return lines.join("\n");
   }
 
-  private extractTitle(content: string): string {
-    // Match # Title at the start of a line
-    const h1Match = content.match(/^#\s+(.+)$/m);
-    if (h1Match) {
-      return h1Match[1].trim();
+  private extractTitle(nodes: MarkdownNode[]): string {
+    return this.headings(nodes).find((heading) => heading.level === 1)?.text ?? "";
+  }
+
+  private extractSummary(nodes: MarkdownNode[]): string | undefined {
+    const titleIndex = nodes.findIndex((node) => node.type === "heading" && node.level === 1);
+    const next = titleIndex === -1 ? undefined : nodes[titleIndex + 1];
+
+    if (next?.type !== "paragraph" || !next.text.startsWith(">")) {
+      return undefined;
     }
+    return next.text.replace(/^>\s?/gm, "").replace(/\s+/g, " ").trim() || undefined;
+  }
 
-    return "";
+  private parseFrontmatter(raw: string): Record<string, unknown> {
+    // Malformed frontmatter should not make the page unusable
+    try {
+      const data: unknown = Bun.YAML.parse(raw);
+      return data && typeof data === "object" && !Array.isArray(data)
+        ? (data as Record<string, unknown>)
+        : {};
+    } catch {
+      return {};
+    }
   }
 
-  private extractSections(content: string): Section[] {
-    const sections: Section[] = [];
+  private stringField(data: Record<string, unknown>, key: string): string | undefined {
+    const value = data[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  }
+
+  private extractSections(content: string, nodes: MarkdownNode[]): Section[] {
     const lines = content.split("\n");
 
-    // Find all h2 and h3 headings with their positions
-    const headings: Array<{ level: number; title: string; lineIndex: number }> = [];
+    // Only h2 and h3 headings start sections; lines inside code fences never become headings
+    const headings = this.headings(nodes).filter(
+      (heading) => heading.level === 2 || heading.level === 3
+    );
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const h2Match = line.match(/^##\s+(.+)$/);
-      const h3Match = line.match(/^###\s+(.+)$/);
+    return headings.map((current, i) => {
+      const next = headings[i + 1];
+      const endLine = next ? next.line : lines.length;
 
-      if (h2Match) {
-        headings.push({ level: 2, title: h2Match[1].trim(), lineIndex: i });
-      } else if (h3Match) {
-        headings.push({ level: 3, title: h3Match[1].trim(), lineIndex: i });
-      }
-    }
+      return {
+        title: current.text,
+        content: lines.slice(current.endLine, endLine).join("\n").trim(),
+        level: current.level,
+      };
+    });
+  }
 
-    // Extract content between headings
-    for (let i = 0; i < headings.length; i++) {
-      const current = headings[i];
-      const next = headings[i + 1];
+  private headings(nodes: MarkdownNode[]): HeadingNode[] {
+    return nodes.filter((node): node is HeadingNode => node.type === "heading");
+  }
 
-      const startLine = current.lineIndex + 1;
-      const endLine = next ? next.lineIndex : lines.length;
+  private indexFromNodes(nodes: MarkdownNode[]): DocIndexEntry[] {
+    const entries: DocIndexEntry[] = [];
+    const seen = new Set<string>();
+    let group: string | undefined;
 
-      const contentLines = lines.slice(startLine, endLine);
-      const sectionContent = contentLines.join("\n").trim();
+    for (const node of nodes) {
+      if (node.type === "heading" && node.level >= 2) {
+        group = node.text;
+        continue;
+      }
 
-      sections.push({
-        title: current.title,
-        content: sectionContent,
-        level: current.level,
-      });
+      for (const { item } of this.markdown.walkListItems([node])) {
+        const link = item.text.match(/^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)(?::\s*(.+))?/);
+        if (!link || seen.has(link[2]!)) {
+          continue;
+        }
+        seen.add(link[2]!);
+
+        entries.push({
+          title: link[1]!.trim(),
+          url: link[2]!,
+          slug: slugFromUrl(link[2]!),
+          description: link[3]?.trim() || undefined,
+          group,
+        });
+      }
     }
 
-    return sections;
+    return entries;
   }
 }
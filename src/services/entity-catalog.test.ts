@@ -0,0 +1,181 @@
+import { describe, it, expect } from "bun:test";
+import { CatalogExtractor, emptyCatalog, mergeCatalogs } from "./entity-catalog.ts";
+import type { DocPage } from "./docs-parser.ts";
+
+function page(slug: string, title: string, body: string): DocPage {
+  return {
+    url: `https://code.claude.com/docs/en/${slug}.md`,
+    canonicalUrl: `https://code.claude.com/docs/en/${slug}`,
+    title,
+    frontmatter: {},
+    body,
+  };
+}
+
+const SETTINGS = page(
+  "settings",
+  "Claude Code settings",
+  `# Claude Code settings
+
+## Available settings
+
+| Key | Description | Example |
+| :-- | :---------- | :------ |
+| \`apiKeyHelper\` | Script that generates an auth value | \`/bin/generate_temp_api_key.sh\` |
+| \`model\` | Override the default model | \`"claude-sonnet-4-5"\` |
+
+## Environment variables
+
+| Variable | Purpose |
+| :------- | :------ |
+| \`ANTHROPIC_API_KEY\` | API key sent as \`X-Api-Key\` header |
+| \`DISABLE_TELEMETRY\` | Set to \`1\` to opt out |
+`
+);
+
+const CLI = page(
+  "cli-reference",
+  "CLI reference",
+  `# CLI reference
+
+## CLI flags
+
+| Flag | Description | Example |
+| :--- | :---------- | :------ |
+| \`--print\`, \`-p\` | Print response without interactive mode | \`claude -p "query"\` |
+| \`--model\` | Sets the model for the current session | \`claude --model opus\` |
+| \`--add-dir <path>\` | Add working directories | \`claude --add-dir ../lib\` |
+`
+);
+
+const HOOKS = page(
+  "hooks",
+  "Hooks reference",
+  `# Hooks reference
+
+<Note>ignored</Note>
+
+| Event | When it fires |
+| :---- | :------------ |
+| \`PreToolUse\` | Before a tool call executes |
+| \`Stop\` | When Claude finishes responding |
+
+\`\`\`md
+| Key | Description |
+| --- | --- |
+| \`notASetting\` | Inside a code block |
+\`\`\`
+`
+);
+
+describe("CatalogExtractor", () => {
+  const extractor = new CatalogExtractor();
+
+  describe("extract", () => {
+    it("should build settings with provenance", () => {
+      const catalog = extractor.extract([SETTINGS]);
+
+      expect(catalog.settings).toEqual([
+        {
+          key: "apiKeyHelper",
+          description: "Script that generates an auth value",
+          example: "`/bin/generate_temp_api_key.sh`",
+          source: {
+            url: "https://code.claude.com/docs/en/settings",
+            title: "Claude Code settings",
+            section: "Available settings",
+          },
+        },
+        expect.objectContaining({ key: "model" }),
+      ]);
+    });
+
+    it("should read environment variables from a Purpose column", () => {
+      const catalog = extractor.extract([SETTINGS]);
+
+      expect(catalog.envVars.map((envVar) => envVar.name)).toEqual([
+        "ANTHROPIC_API_KEY",
+        "DISABLE_TELEMETRY",
+      ]);
+      expect(catalog.envVars[1]!.description).toBe("Set to `1` to opt out");
+      expect(catalog.envVars[0]!.source.section).toBe("Environment variables");
+    });
+
+    it("should split CLI flag aliases and argument placeholders", () => {
+      const catalog = extractor.extract([CLI]);
+
+      expect(catalog.cliFlags.map(({ flag, aliases }) => ({ flag, aliases }))).toEqual([
+        { flag: "--print", aliases: ["-p"] },
+        { flag: "--model", aliases: [] },
+        { flag: "--add-dir", aliases: [] },
+      ]);
+      expect(catalog.cliFlags[0]!.example).toBe('`claude -p "query"`');
+    });
+
+    it("should read hook events and ignore tables inside code blocks", () => {
+      const catalog = extractor.extract([HOOKS]);
+
+      expect(catalog.hookEvents).toEqual([
+        {
+          name: "PreToolUse",
+          description: "Before a tool call executes",
+          source: {
+            url: "https://code.claude.com/docs/en/hooks",
+            title: "Hooks reference",
+            section: "Hooks reference",
+          },
+        },
+        expect.objectContaining({ name: "Stop" }),
+      ]);
+      expect(catalog.settings).toEqual([]);
+    });
+
+    it("should keep the first definition of a name and record every source", () => {
+      const duplicate = page("model-config", "Model configuration", SETTINGS.body);
+
+      const catalog = extractor.extract([SETTINGS, duplicate, CLI]);
+
+      expect(catalog.settings).toHaveLength(2);
+      expect(catalog.settings[0]!.source.title).toBe("Claude Code settings");
+      expect(catalog.sources).toEqual([
+        "https://code.claude.com/docs/en/settings",
+        "https://code.claude.com/docs/en/model-config",
+        "https://code.claude.com/docs/en/cli-reference",
+      ]);
+    });
+  });
+});
+
+describe("mergeCatalogs", () => {
+  it("should replace entries from refreshed pages only", () => {
+    const extractor = new CatalogExtractor();
+    const previous = extractor.extract([SETTINGS, CLI]);
+    const next = extractor.extract([page("cli-reference", "CLI reference", "# CLI reference")]);
+
+    const merged = mergeCatalogs(previous, next);
+
+    expect(merged.settings).toHaveLength(2);
+    expect(merged.cliFlags).toEqual([]);
+    expect(merged.sources).toEqual(previous.sources);
+  });
+
+  it("should keep one entry per name across pages", () => {
+    const extractor = new CatalogExtractor();
+    const previous = extractor.extract([SETTINGS]);
+    const table = "| Variable | Purpose |\n| - | - |\n| `DISABLE_TELEMETRY` | Opt out |";
+    const next = extractor.extract([page("env-vars", "Environment variables", table)]);
+
+    const merged = mergeCatalogs(previous, next);
+
+    expect(merged.envVars.map((envVar) => [envVar.name, envVar.description])).toEqual([
+      ["ANTHROPIC_API_KEY", "API key sent as `X-Api-Key` header"],
+      ["DISABLE_TELEMETRY", "Opt out"],
+    ]);
+  });
+
+  it("should merge into an empty catalog", () => {
+    const next = new CatalogExtractor().extract([HOOKS]);
+
+    expect(mergeCatalogs(emptyCatalog(), next)).toEqual(next);
+  });
+});
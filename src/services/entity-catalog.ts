@@ -0,0 +1,237 @@
+import { MarkdownParser, type TableNode } from "./markdown-parser.ts";
+import type { DocPage } from "./docs-parser.ts";
+
+/** Where a catalog entry was found. */
+export interface Provenance {
+  /** Canonical URL of the page. */
+  url: string;
+  title: string;
+  /** Nearest heading above the table, when there is one. */
+  section?: string;
+}
+
+export interface SettingDef {
+  key: string;
+  description: string;
+  example?: string;
+  source: Provenance;
+}
+
+export interface EnvVarDef {
+  name: string;
+  description: string;
+  source: Provenance;
+}
+
+export interface CliFlagDef {
+  flag: string;
+  /** Other spellings listed with the flag, e.g. `-p` for `--print`. */
+  aliases: string[];
+  description: string;
+  example?: string;
+  source: Provenance;
+}
+
+export interface HookEventDef {
+  name: string;
+  description: string;
+  source: Provenance;
+}
+
+export interface EntityCatalog {
+  settings: SettingDef[];
+  envVars: EnvVarDef[];
+  cliFlags: CliFlagDef[];
+  hookEvents: HookEventDef[];
+  /** Canonical URLs of the pages the catalog was built from. */
+  sources: string[];
+}
+
+// First-column headers that identify each kind of table
+const SETTING_HEADER = /^(key|setting)s?$/i;
+const ENV_VAR_HEADER = /^(environment )?variables?$/i;
+const CLI_FLAG_HEADER = /^flags?$/i;
+const HOOK_EVENT_HEADER = /^(hook )?events?$/i;
+
+export function emptyCatalog(): EntityCatalog {
+  return { settings: [], envVars: [], cliFlags: [], hookEvents: [], sources: [] };
+}
+
+/**
+ * Replaces every entry from a page in `next` and keeps the rest of
+ * `previous`, so a partial regeneration does not drop other pages' entries.
+ * A name defined in `next` replaces the same name kept from another page.
+ */
+export function mergeCatalogs(previous: EntityCatalog, next: EntityCatalog): EntityCatalog {
+  const refreshed = new Set(next.sources);
+  const merge = <T extends { source: Provenance }>(
+    entries: T[],
+    nextEntries: T[],
+    key: (entry: T) => string
+  ) => {
+    const names = new Set(nextEntries.map(key));
+    const kept = entries.filter(
+      (entry) => !refreshed.has(entry.source.url) && !names.has(key(entry))
+    );
+    return [...kept, ...nextEntries];
+  };
+
+  return {
+    settings: merge(previous.settings, next.settings, (setting) => setting.key),
+    envVars: merge(previous.envVars, next.envVars, (envVar) => envVar.name),
+    cliFlags: merge(previous.cliFlags, next.cliFlags, (flag) => flag.flag),
+    hookEvents: merge(previous.hookEvents, next.hookEvents, (event) => event.name),
+    sources: [...new Set([...previous.sources, ...next.sources])],
+  };
+}
+
+/**
+ * Builds typed catalogs of settings, environment variables, CLI flags and
+ * hook events from the reference tables of fetched doc pages. Tables are
+ * recognised by their first column header; the first definition of a name
+ * wins.
+ */
+export class CatalogExtractor {
+  private markdown = new MarkdownParser();
+
+  extract(pages: DocPage[]): EntityCatalog {
+    const catalog = emptyCatalog();
+
+    for (const page of pages) {
+      catalog.sources.push(page.canonicalUrl);
+
+      for (const { table, section } of this.tables(page.body)) {
+        const source: Provenance = { url: page.canonicalUrl, title: page.title, section };
+        const first = table.headers[0] ?? "";
+
+        if (SETTING_HEADER.test(first)) {
+          catalog.settings.push(...this.settings(table, source));
+        } else if (ENV_VAR_HEADER.test(first)) {
+          catalog.envVars.push(...this.envVars(table, source));
+        } else if (CLI_FLAG_HEADER.test(first)) {
+          catalog.cliFlags.push(...this.cliFlags(table, source));
+        } else if (HOOK_EVENT_HEADER.test(first)) {
+          catalog.hookEvents.push(...this.hookEvents(table, source));
+        }
+      }
+    }
+
+    return {
+      settings: this.unique(catalog.settings, (setting) => setting.key),
+      envVars: this.unique(catalog.envVars, (envVar) => envVar.name),
+      cliFlags: this.unique(catalog.cliFlags, (flag) => flag.flag),
+      hookEvents: this.unique(catalog.hookEvents, (event) => event.name),
+      sources: catalog.sources,
+    };
+  }
+
+  private settings(table: TableNode, source: Provenance): SettingDef[] {
+    const description = this.column(table, /^(description|purpose)$/i, 1);
+    const example = this.column(table, /^example/i);
+
+    return this.rows(table).map((row) => ({
+      key: this.identifier(row[0]!),
+      description: this.cell(row, description),
+      example: this.optionalCell(row, example),
+      source,
+    }));
+  }
+
+  private envVars(table: TableNode, source: Provenance): EnvVarDef[] {
+    const description = this.column(table, /^(description|purpose)$/i, 1);
+
+    return this.rows(table).map((row) => ({
+      name: this.identifier(row[0]!),
+      description: this.cell(row, description),
+      source,
+    }));
+  }
+
+  private cliFlags(table: TableNode, source: Provenance): CliFlagDef[] {
+    const description = this.column(table, /^description$/i, 1);
+    const example = this.column(table, /^example/i);
+
+    return this.rows(table).map((row) => {
+      // `--print`, `-p` → flag and aliases
+      const [flag, ...aliases] = row[0]!
+        .split(",")
+        .map((spelling) => this.identifier(spelling))
+        .filter(Boolean);
+
+      return {
+        flag: flag!,
+        aliases,
+        description: this.cell(row, description),
+        example: this.optionalCell(row, example),
+        source,
+      };
+    });
+  }
+
+  private hookEvents(table: TableNode, source: Provenance): HookEventDef[] {
+    const description = this.column(table, /^(description|when it fires)$/i, 1);
+
+    return this.rows(table).map((row) => ({
+      name: this.identifier(row[0]!),
+      description: this.cell(row, description),
+      source,
+    }));
+  }
+
+  private *tables(markdown: string): Generator<{ table: TableNode; section?: string }> {
+    let section: string | undefined;
+
+    for (const node of this.markdown.parse(markdown)) {
+      if (node.type === "heading") {
+        section = node.text;
+        continue;
+      }
+
+      for (const child of this.markdown.walk([node])) {
+        if (child.type === "table") {
+          yield { table: child, section };
+        }
+      }
+    }
+  }
+
+  /** Rows with a non-empty first cell. */
+  private rows(table: TableNode): string[][] {
+    return table.rows.filter((row) => this.identifier(row[0] ?? "") !== "");
+  }
+
+  /** Index of the first column whose header matches, else `fallback` (-1 when absent). */
+  private column(table: TableNode, header: RegExp, fallback = -1): number {
+    const index = table.headers.findIndex((name) => header.test(name.trim()));
+    return index === -1 ? fallback : index;
+  }
+
+  private cell(row: string[], index: number): string {
+    return row[index]?.trim() ?? "";
+  }
+
+  private optionalCell(row: string[], index: number): string | undefined {
+    return this.cell(row, index) || undefined;
+  }
+
+  /** `` `--model <alias>` `` → `--model`; `` `permissions.allow` `` → `permissions.allow`. */
+  private identifier(cell: string): string {
+    return cell
+      .replace(/`/g, "")
+      .trim()
+      .split(/\s+/)[0]!
+      .replace(/[=:].*$/, "");
+  }
+
+  private unique<T>(entries: T[], key: (entry: T) => string): T[] {
+    const seen = new Set<string>();
+    return entries.filter((entry) => {
+      const name = key(entry);
+      if (seen.has(name)) {
+        return false;
+      }
+      seen.add(name);
+      return true;
+    });
+  }
+}
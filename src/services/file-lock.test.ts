@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { FileLock, LockHeldError, withUpdateLock, type LockInfo } from "./file-lock.ts";
+import { mkdir, readFile, readdir, rm, utimes, writeFile, exists } from "node:fs/promises";
+import { hostname } from "node:os";
+import { join } from "node:path";
+
+describe("FileLock", () => {
+  const testDir = "/tmp/phoenixlab-file-lock-test";
+  const lockPath = join(testDir, "update.lock");
+
+  const writeHolder = (holder: LockInfo) => writeFile(lockPath, JSON.stringify(holder));
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should record the holder and remove the lockfile on release", async () => {
+    const lock = new FileLock(lockPath);
+
+    await lock.acquire();
+    const holder = JSON.parse(await readFile(lockPath, "utf-8")) as LockInfo;
+    await lock.release();
+
+    expect(holder.pid).toBe(process.pid);
+    expect(holder.hostname).toBe(hostname());
+    expect(await exists(lockPath)).toBe(false);
+  });
+
+  it("should fail at once with timeoutMs 0 while another process holds it", async () => {
+    await new FileLock(lockPath).acquire();
+
+    const second = new FileLock(lockPath, { timeoutMs: 0 });
+
+    await expect(second.acquire()).rejects.toBeInstanceOf(LockHeldError);
+    await expect(second.acquire()).rejects.toThrow(`held by pid ${process.pid}`);
+  });
+
+  it("should wait until the holder releases the lock", async () => {
+    const first = new FileLock(lockPath);
+    await first.acquire();
+    const waits: Array<LockInfo | null> = [];
+    const second = new FileLock(lockPath, {
+      timeoutMs: 5000,
+      pollIntervalMs: 10,
+      onWait: (holder) => waits.push(holder),
+    });
+
+    setTimeout(() => first.release(), 50);
+    await second.acquire();
+
+    expect(waits).toHaveLength(1);
+    expect(waits[0]!.pid).toBe(process.pid);
+    await second.release();
+  });
+
+  it("should take over a lock left by a dead process", async () => {
+    const dead = Bun.spawnSync(["true"]).pid;
+    await writeHolder({ pid: dead, hostname: hostname(), acquiredAt: new Date().toISOString() });
+
+    await new FileLock(lockPath, { timeoutMs: 0 }).acquire();
+
+    const holder = JSON.parse(await readFile(lockPath, "utf-8")) as LockInfo;
+    expect(holder.pid).toBe(process.pid);
+  });
+
+  it("should let only one of several processes take over a stale lock", async () => {
+    const dead = Bun.spawnSync(["true"]).pid;
+
+    // Several rounds, as the race depends on how the file operations interleave
+    for (let round = 0; round < 20; round++) {
+      await writeHolder({ pid: dead, hostname: hostname(), acquiredAt: new Date().toISOString() });
+      const locks = [1, 2, 3, 4].map(() => new FileLock(lockPath, { timeoutMs: 0 }));
+
+      const results = await Promise.allSettled(locks.map((lock) => lock.acquire()));
+
+      expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+      expect(await readdir(testDir)).toEqual(["update.lock"]);
+      await rm(lockPath);
+    }
+  });
+
+  it("should clear a takeover left unfinished by a crashed process", async () => {
+    await writeFile(`${lockPath}.takeover`, "1");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${lockPath}.takeover`, old, old);
+    await writeHolder({ pid: 1, hostname: "elsewhere", acquiredAt: "2024-01-15T00:00:00Z" });
+    await utimes(lockPath, old, old);
+
+    await new FileLock(lockPath, { pollIntervalMs: 10, staleMs: 1000 }).acquire();
+
+    expect(await readdir(testDir)).toEqual(["update.lock"]);
+  });
+
+  it("should take over a lock older than staleMs", async () => {
+    await writeHolder({ pid: 1, hostname: "elsewhere", acquiredAt: "2024-01-15T00:00:00Z" });
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+
+    await new FileLock(lockPath, { timeoutMs: 0, staleMs: 1000 }).acquire();
+
+    const holder = JSON.parse(await readFile(lockPath, "utf-8")) as LockInfo;
+    expect(holder.pid).toBe(process.pid);
+  });
+
+  it("should keep a held lock fresh so it is not taken over", async () => {
+    const first = new FileLock(lockPath, { staleMs: 300 });
+    await first.acquire();
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+
+    await Bun.sleep(150);
+    const second = new FileLock(lockPath, { timeoutMs: 0, staleMs: 300 });
+
+    await expect(second.acquire()).rejects.toBeInstanceOf(LockHeldError);
+    await first.release();
+  });
+
+  it("should not delete a lockfile that names another holder on release", async () => {
+    const lock = new FileLock(lockPath);
+    await lock.acquire();
+    const other = { pid: 1, hostname: "elsewhere", acquiredAt: "2024-01-15T00:00:00Z" };
+    await writeHolder(other);
+
+    await lock.release();
+
+    expect(JSON.parse(await readFile(lockPath, "utf-8"))).toEqual(other);
+  });
+
+  it("should release the lock when the task fails", async () => {
+    const lock = new FileLock(lockPath);
+
+    await expect(
+      lock.withLock(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(await exists(lockPath)).toBe(false);
+  });
+
+  describe("withUpdateLock", () => {
+    const cacheDir = join(testDir, "cache");
+
+    it("should create the cache directory and hold update.lock while the task runs", async () => {
+      const held = await withUpdateLock(cacheDir, async () =>
+        exists(join(cacheDir, "update.lock"))
+      );
+
+      expect(held).toBe(true);
+      expect(await exists(join(cacheDir, "update.lock"))).toBe(false);
+    });
+
+    it("should throw LockHeldError without running the task while the lock is held", async () => {
+      let ran = false;
+      const task = async () => {
+        ran = true;
+      };
+
+      await withUpdateLock(cacheDir, async () => {
+        await expect(withUpdateLock(cacheDir, task, { timeoutMs: 0 })).rejects.toBeInstanceOf(
+          LockHeldError
+        );
+      });
+
+      expect(ran).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { mkdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { join } from "node:path";
+
+/** Contents of a lockfile, identifying the process that holds it. */
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export interface FileLockOptions {
+  /** How long to wait for another holder to finish; 0 gives up at once. */
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  /**
+   * Locks not refreshed for this long are taken over even if the holder
+   * looks alive; a holder refreshes its lock every third of this.
+   */
+  staleMs?: number;
+  /** Called once when the lock is held by another process and we start waiting. */
+  onWait?: (holder: LockInfo | null) => void;
+}
+
+/** Lockfile in the cache directory held by every command that writes the cache. */
+export const UPDATE_LOCK_FILE = "update.lock";
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_STALE_MS = 30 * 60 * 1000;
+// A takeover takes milliseconds; a guard this old was left by a crash
+const TAKEOVER_STALE_MS = 10 * 1000;
+
+export class LockHeldError extends Error {
+  constructor(
+    public lockPath: string,
+    public holder: LockInfo | null
+  ) {
+    super(
+      holder
+        ? `Lock ${lockPath} is held by pid ${holder.pid} on ${holder.hostname} ` +
+            `since ${holder.acquiredAt}`
+        : `Lock ${lockPath} is held by another process`
+    );
+    this.name = "LockHeldError";
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * A lockfile created with O_EXCL so only one process holds it at a time.
+ * Locks left behind by a dead process on this host, or not refreshed for
+ * `staleMs` (e.g. held by a crashed process on another host), are taken over.
+ */
+export class FileLock {
+  private held = false;
+  /** What this process wrote to the lockfile, to recognise it on release. */
+  private written: string | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private lockPath: string,
+    private options: FileLockOptions = {}
+  ) {}
+
+  /**
+   * Waits up to `timeoutMs` for the lock; throws LockHeldError when another
+   * process still holds it.
+   */
+  async acquire(): Promise<void> {
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const pollIntervalMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+    let waiting = false;
+
+    while (true) {
+      if (await this.tryCreate()) {
+        this.held = true;
+        this.startHeartbeat();
+        return;
+      }
+
+      const holder = await this.readHolder(this.lockPath);
+      if (holder === undefined) {
+        continue;
+      }
+      if ((await this.isStale(holder)) && (await this.takeOver(holder))) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockHeldError(this.lockPath, holder);
+      }
+      if (!waiting) {
+        waiting = true;
+        this.options.onWait?.(holder);
+      }
+      await Bun.sleep(pollIntervalMs);
+    }
+  }
+
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+    this.held = false;
+    clearInterval(this.heartbeat ?? undefined);
+    this.heartbeat = null;
+
+    // A lock taken over from us now belongs to another process
+    const current = await readFile(this.lockPath, "utf-8").catch(() => null);
+    if (current === this.written) {
+      await rm(this.lockPath, { force: true });
+    }
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  private async tryCreate(): Promise<boolean> {
+    const info: LockInfo = {
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: new Date().toISOString(),
+    };
+
+    try {
+      const content = JSON.stringify(info);
+      await writeFile(this.lockPath, content, { flag: "wx" });
+      this.written = content;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /** Touches the lockfile while it is held, so a long run is never judged stale. */
+  private startHeartbeat(): void {
+    const staleMs = this.options.staleMs ?? DEFAULT_STALE_MS;
+    this.heartbeat = setInterval(() => {
+      const now = new Date();
+      utimes(this.lockPath, now, now).catch(() => {});
+    }, staleMs / 3);
+    // The heartbeat alone never keeps the process running
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Removes a stale lockfile while holding `<lockPath>.takeover`, so only one
+   * process takes it over, and only if it still records the holder judged
+   * stale; a lock taken since then is left alone. Returns false while
+   * another process is taking it over.
+   */
+  private async takeOver(stale: LockInfo | null): Promise<boolean> {
+    const guardPath = `${this.lockPath}.takeover`;
+
+    try {
+      await writeFile(guardPath, String(process.pid), { flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      // Another process is taking over; a guard left by a crash is cleared
+      const mtimeMs = await stat(guardPath).then((stats) => stats.mtimeMs, () => null);
+      if (mtimeMs !== null && Date.now() - mtimeMs > TAKEOVER_STALE_MS) {
+        await rm(guardPath, { force: true });
+      }
+      return false;
+    }
+
+    try {
+      const current = await this.readHolder(this.lockPath);
+      if (current !== undefined && JSON.stringify(current) === JSON.stringify(stale)) {
+        await rm(this.lockPath, { force: true });
+      }
+    } finally {
+      await rm(guardPath, { force: true });
+    }
+    return true;
+  }
+
+  /**
+   * The holder recorded in `path`; null when the lockfile is unreadable
+   * (e.g. still being written) and undefined when it has disappeared.
+   */
+  private async readHolder(path: string): Promise<LockInfo | null | undefined> {
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as LockInfo;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === "ENOENT" ? undefined : null;
+    }
+  }
+
+  private async isStale(holder: LockInfo | null): Promise<boolean> {
+    if (holder?.hostname === hostname() && !isProcessAlive(holder.pid)) {
+      return true;
+    }
+
+    try {
+      const { mtimeMs } = await stat(this.lockPath);
+      return Date.now() - mtimeMs > (this.options.staleMs ?? DEFAULT_STALE_MS);
+    } catch {
+      // Released while we looked
+      return true;
+    }
+  }
+}
+
+/**
+ * Runs `task` while holding the update lock of `cacheDir`, so commands that
+ * write the cache never interleave. Throws LockHeldError without running
+ * `task` when another process keeps the lock past `timeoutMs`.
+ */
+export async function withUpdateLock<T>(
+  cacheDir: string,
+  task: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  await mkdir(cacheDir, { recursive: true });
+  return new FileLock(join(cacheDir, UPDATE_LOCK_FILE), options).withLock(task);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { FreshnessLedger, assessFreshness } from "./freshness.ts";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("assessFreshness", () => {
+  const now = new Date("2024-01-15T12:00:00Z");
+
+  it("should be fresh within the time to live", () => {
+    const checkedAt = new Date("2024-01-15T07:00:00Z");
+
+    expect(assessFreshness("releases", "releases", checkedAt, 6, now)).toEqual({
+      kind: "releases",
+      name: "releases",
+      checkedAt,
+      ttlHours: 6,
+      expired: false,
+    });
+  });
+
+  it("should expire once the time to live has run out", () => {
+    const checkedAt = new Date("2024-01-15T06:00:00Z");
+
+    expect(assessFreshness("releases", "releases", checkedAt, 6, now).expired).toBe(true);
+  });
+
+  it("should treat artifacts never checked as expired", () => {
+    expect(assessFreshness("pages", "hooks", null, 24, now).expired).toBe(true);
+  });
+});
+
+describe("FreshnessLedger", () => {
+  const testCacheDir = "/tmp/phoenixlab-freshness-test";
+
+  beforeEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  it("should remember when each artifact was checked", async () => {
+    const checkedAt = new Date("2024-01-15T12:00:00Z");
+    await new FreshnessLedger(testCacheDir).markChecked("docs", checkedAt);
+
+    const ledger = new FreshnessLedger(testCacheDir);
+
+    expect(await ledger.getCheckedAt("docs")).toEqual(checkedAt);
+    expect(await ledger.getCheckedAt("releases")).toBeNull();
+  });
+
+  it("should treat an unreadable ledger as empty", async () => {
+    await mkdir(testCacheDir, { recursive: true });
+    await writeFile(join(testCacheDir, "freshness.json"), "{");
+
+    expect(await new FreshnessLedger(testCacheDir).getCheckedAt("docs")).toBeNull();
+  });
+});
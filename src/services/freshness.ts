@@ -0,0 +1,81 @@
+import { readFile, exists, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.ts";
+
+export type ArtifactKind = "docs" | "releases" | "pages" | "references";
+
+/** Time to live of each kind of artifact, in hours. */
+export type FreshnessTtls = Record<ArtifactKind, number>;
+
+export const DEFAULT_TTL_HOURS: FreshnessTtls = {
+  docs: 24,
+  releases: 6,
+  pages: 7 * 24,
+  references: 7 * 24,
+};
+
+export interface ArtifactFreshness {
+  kind: ArtifactKind;
+  /** `docs`, `releases`, a page slug or a reference path. */
+  name: string;
+  /** When the artifact was last fetched or confirmed current; null if never. */
+  checkedAt: Date | null;
+  ttlHours: number;
+  expired: boolean;
+}
+
+export interface FreshnessReport {
+  docs: ArtifactFreshness;
+  releases: ArtifactFreshness;
+  pages: ArtifactFreshness[];
+  references: ArtifactFreshness[];
+}
+
+export const LEDGER_FILE = "freshness.json";
+const HOUR_MS = 60 * 60 * 1000;
+
+export function assessFreshness(
+  kind: ArtifactKind,
+  name: string,
+  checkedAt: Date | null,
+  ttlHours: number,
+  now: Date = new Date()
+): ArtifactFreshness {
+  const expired = !checkedAt || now.getTime() - checkedAt.getTime() >= ttlHours * HOUR_MS;
+  return { kind, name, checkedAt, ttlHours, expired };
+}
+
+/**
+ * Records when docs and releases were last confirmed current, including
+ * 304 responses that leave their cache files untouched.
+ */
+export class FreshnessLedger {
+  constructor(private cacheDir: string) {}
+
+  async getCheckedAt(name: string): Promise<Date | null> {
+    const entries = await this.load();
+    return entries[name] ? new Date(entries[name]) : null;
+  }
+
+  async markChecked(name: string, checkedAt: Date = new Date()): Promise<void> {
+    const entries = await this.load();
+    entries[name] = checkedAt.toISOString();
+
+    await mkdir(this.cacheDir, { recursive: true });
+    await writeFileAtomic(join(this.cacheDir, LEDGER_FILE), JSON.stringify(entries, null, 2));
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    const ledgerPath = join(this.cacheDir, LEDGER_FILE);
+    if (!(await exists(ledgerPath))) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(await readFile(ledgerPath, "utf-8")) as Record<string, string>;
+    } catch {
+      // A broken ledger only means everything looks expired
+      return {};
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import {
+  FetchTransport,
+  RecordingTransport,
+  ReplayTransport,
+  type HttpTransport,
+} from "./http-transport.ts";
+import { mkdir, rm, readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("HttpTransport", () => {
+  const testFixturesDir = "/tmp/phoenixlab-http-transport-test";
+  const url = "https://code.claude.com/docs/en/hooks.md";
+
+  // Stub transport standing in for the network
+  const stubTransport = (body: string, init: ResponseInit = {}): HttpTransport => ({
+    fetch: mock(() => Promise.resolve(new Response(body, init))),
+  });
+
+  beforeEach(async () => {
+    await rm(testFixturesDir, { recursive: true, force: true });
+    await mkdir(testFixturesDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testFixturesDir, { recursive: true, force: true });
+  });
+
+  describe("FetchTransport", () => {
+    it("should delegate to the global fetch", async () => {
+      const globalFetch = spyOn(globalThis, "fetch").mockResolvedValue(new Response("# Hooks"));
+
+      const response = await new FetchTransport().fetch(url, { headers: { A: "1" } });
+
+      expect(await response.text()).toBe("# Hooks");
+      expect(globalFetch).toHaveBeenCalledWith(url, { headers: { A: "1" } });
+      globalFetch.mockRestore();
+    });
+  });
+
+  describe("RecordingTransport", () => {
+    it("should return the inner response unchanged", async () => {
+      const recorder = new RecordingTransport(
+        testFixturesDir,
+        stubTransport("# Hooks", { status: 200, headers: { ETag: '"v1"' } })
+      );
+
+      const response = await recorder.fetch(url);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"v1"');
+      expect(await response.text()).toBe("# Hooks");
+    });
+
+    it("should save a fixture file per URL", async () => {
+      const recorder = new RecordingTransport(testFixturesDir, stubTransport("# Hooks"));
+
+      await recorder.fetch(url);
+
+      const files = await readdir(testFixturesDir);
+      expect(files).toEqual(["code.claude.com_docs_en_hooks.md.json"]);
+
+      const fixture = JSON.parse(await readFile(join(testFixturesDir, files[0]!), "utf-8"));
+      expect(fixture.url).toBe(url);
+      expect(fixture.status).toBe(200);
+      expect(fixture.body).toBe("# Hooks");
+      expect(fixture.recordedAt).toBeDefined();
+    });
+  });
+
+  describe("ReplayTransport", () => {
+    it("should replay recorded responses", async () => {
+      const recorder = new RecordingTransport(
+        testFixturesDir,
+        stubTransport("# Hooks", { status: 200, headers: { "Last-Modified": "Wed, 04 Feb 2026 10:00:00 GMT" } })
+      );
+      await recorder.fetch(url);
+
+      const response = await new ReplayTransport(testFixturesDir).fetch(url);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Last-Modified")).toBe("Wed, 04 Feb 2026 10:00:00 GMT");
+      expect(await response.text()).toBe("# Hooks");
+    });
+
+    it("should replay error responses", async () => {
+      await new RecordingTransport(testFixturesDir, stubTransport("Not Found", { status: 404 })).fetch(url);
+
+      const replay = new ReplayTransport(testFixturesDir);
+
+      expect((await replay.fetch(url)).status).toBe(404);
+    });
+
+    it("should keep the full response when a later request returns 304", async () => {
+      await new RecordingTransport(testFixturesDir, stubTransport("# Hooks")).fetch(url);
+      const notModified = await new RecordingTransport(testFixturesDir, {
+        fetch: () => Promise.resolve(new Response(null, { status: 304 })),
+      }).fetch(url, { headers: { "If-None-Match": '"v1"' } });
+
+      const replayed = await new ReplayTransport(testFixturesDir).fetch(url);
+
+      expect(notModified.status).toBe(304);
+      expect(replayed.status).toBe(200);
+      expect(await replayed.text()).toBe("# Hooks");
+    });
+
+    it("should throw when no fixture was recorded", async () => {
+      const replay = new ReplayTransport(testFixturesDir);
+
+      expect(replay.fetch(url)).rejects.toThrow(`No recorded fixture for ${url}`);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { mkdir, readFile, writeFile, exists } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Minimal HTTP boundary used by all services that download documentation.
+ */
+export interface HttpTransport {
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+export interface HttpFixture {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string;
+}
+
+// Statuses that must not carry a body when rebuilding a Response
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Default transport backed by the global fetch.
+ */
+export class FetchTransport implements HttpTransport {
+  fetch(url: string, init?: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+}
+
+/**
+ * Wraps another transport and saves every response as a JSON fixture.
+ * 304 responses are not saved: fixtures are keyed by URL alone, so an empty
+ * 304 would replace the full response that replay needs.
+ */
+export class RecordingTransport implements HttpTransport {
+  constructor(
+    private fixturesDir: string,
+    private inner: HttpTransport = new FetchTransport()
+  ) {}
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const response = await this.inner.fetch(url, init);
+    if (response.status === 304) {
+      return response;
+    }
+
+    const body = await response.text();
+
+    const fixture: HttpFixture = {
+      url,
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await mkdir(this.fixturesDir, { recursive: true });
+    await writeFile(
+      join(this.fixturesDir, fixtureFileName(url)),
+      JSON.stringify(fixture, null, 2)
+    );
+
+    return fixtureToResponse(fixture);
+  }
+}
+
+/**
+ * Serves responses previously saved by RecordingTransport, without network access.
+ */
+export class ReplayTransport implements HttpTransport {
+  constructor(private fixturesDir: string) {}
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const fixturePath = join(this.fixturesDir, fixtureFileName(url));
+
+    if (!(await exists(fixturePath))) {
+      throw new Error(`No recorded fixture for ${url}`);
+    }
+
+    const fixture = JSON.parse(await readFile(fixturePath, "utf-8")) as HttpFixture;
+    return fixtureToResponse(fixture);
+  }
+}
+
+/**
+ * Maps a URL to a stable, filesystem-safe fixture file name.
+ */
+function fixtureFileName(url: string): string {
+  const withoutScheme = url.replace(/^[a-z]+:\/\//i, "");
+  return `${withoutScheme.replace(/[^a-zA-Z0-9._-]+/g, "_")}.json`;
+}
+
+function fixtureToResponse(fixture: HttpFixture): Response {
+  const body = NULL_BODY_STATUSES.includes(fixture.status) ? null : fixture.body;
+  return new Response(body, { status: fixture.status, headers: fixture.headers });
+}
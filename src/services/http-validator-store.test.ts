@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { HttpValidatorStore } from "./http-validator-store.ts";
+import type { QuarantineReport } from "./quarantine.ts";
+import { mkdir, rm, readFile, writeFile, exists } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("HttpValidatorStore", () => {
+  const testCacheDir = "/tmp/phoenixlab-validator-store-test";
+  const url = "https://code.claude.com/docs/llms.txt";
+  let store: HttpValidatorStore;
+
+  beforeEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+    await mkdir(testCacheDir, { recursive: true });
+    store = new HttpValidatorStore(testCacheDir);
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  describe("record", () => {
+    it("should store ETag and Last-Modified from a response", async () => {
+      const response = new Response("ok", {
+        headers: {
+          ETag: '"abc123"',
+          "Last-Modified": "Wed, 04 Feb 2026 10:00:00 GMT",
+        },
+      });
+
+      await store.record(url, response);
+
+      expect(await store.get(url)).toEqual({
+        etag: '"abc123"',
+        lastModified: "Wed, 04 Feb 2026 10:00:00 GMT",
+      });
+    });
+
+    it("should persist validators to http-validators.json", async () => {
+      await store.record(url, new Response("ok", { headers: { ETag: '"v1"' } }));
+
+      const filePath = join(testCacheDir, "http-validators.json");
+      expect(await exists(filePath)).toBe(true);
+
+      const data = JSON.parse(await readFile(filePath, "utf-8"));
+      expect(data[url].etag).toBe('"v1"');
+    });
+
+    it("should drop stored validators when a response has none", async () => {
+      await store.record(url, new Response("ok", { headers: { ETag: '"v1"' } }));
+      await store.record(url, new Response("ok"));
+
+      expect(await store.get(url)).toBeNull();
+    });
+
+    it("should keep every entry when records run concurrently", async () => {
+      const urls = [1, 2, 3, 4].map((i) => `https://code.claude.com/docs/en/page-${i}.md`);
+
+      await Promise.all(
+        urls.map((pageUrl, i) =>
+          store.record(pageUrl, new Response("ok", { headers: { ETag: `"v${i}"` } }))
+        )
+      );
+
+      const data = JSON.parse(await readFile(join(testCacheDir, "http-validators.json"), "utf-8"));
+      expect(Object.keys(data).sort()).toEqual(urls);
+    });
+  });
+
+  describe("getConditionalHeaders", () => {
+    it("should return an empty object for unknown URLs", async () => {
+      expect(await store.getConditionalHeaders(url)).toEqual({});
+    });
+
+    it("should map validators to conditional request headers", async () => {
+      await store.record(
+        url,
+        new Response("ok", {
+          headers: {
+            ETag: '"abc123"',
+            "Last-Modified": "Wed, 04 Feb 2026 10:00:00 GMT",
+          },
+        })
+      );
+
+      expect(await store.getConditionalHeaders(url)).toEqual({
+        "If-None-Match": '"abc123"',
+        "If-Modified-Since": "Wed, 04 Feb 2026 10:00:00 GMT",
+      });
+    });
+
+    it("should load validators written by another instance", async () => {
+      await store.record(url, new Response("ok", { headers: { ETag: '"v2"' } }));
+
+      const reloaded = new HttpValidatorStore(testCacheDir);
+
+      expect(await reloaded.getConditionalHeaders(url)).toEqual({
+        "If-None-Match": '"v2"',
+      });
+    });
+
+    it("should quarantine a truncated file and send unconditional requests", async () => {
+      const filePath = join(testCacheDir, "http-validators.json");
+      await writeFile(filePath, '{"https://code.claude.com/docs/llms.txt": {"eta');
+      const reports: QuarantineReport[] = [];
+
+      const reloaded = new HttpValidatorStore(testCacheDir, {
+        onQuarantine: (report) => reports.push(report),
+      });
+
+      expect(await reloaded.getConditionalHeaders(url)).toEqual({});
+      expect(reports).toHaveLength(1);
+      expect(reports[0]!.quarantinedPath).toStartWith(`${filePath}.corrupt-`);
+      expect(await exists(filePath)).toBe(false);
+    });
+  });
+
+  describe("clear", () => {
+    it("should remove all stored validators", async () => {
+      await store.record(url, new Response("ok", { headers: { ETag: '"v1"' } }));
+
+      await store.clear();
+
+      expect(await store.get(url)).toBeNull();
+      expect(await new HttpValidatorStore(testCacheDir).get(url)).toBeNull();
+    });
+  });
+});
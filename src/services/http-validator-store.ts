@@ -0,0 +1,114 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.ts";
+import { validateHttpValidators } from "./cache-schema.ts";
+import { readJsonFile, type QuarantineHandler } from "./quarantine.ts";
+
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface HttpValidatorStoreOptions {
+  /** Called when a corrupt validators file is quarantined. */
+  onQuarantine?: QuarantineHandler;
+}
+
+export const VALIDATORS_FILE = "http-validators.json";
+
+/**
+ * Persists HTTP cache validators (ETag / Last-Modified) per URL so that
+ * repeat fetches can be sent as conditional requests.
+ */
+export class HttpValidatorStore {
+  private entries: Map<string, HttpValidators> | null = null;
+  private entriesLoad: Promise<Map<string, HttpValidators>> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(
+    private cacheDir: string,
+    private options: HttpValidatorStoreOptions = {}
+  ) {}
+
+  async get(url: string): Promise<HttpValidators | null> {
+    const entries = await this.load();
+    return entries.get(url) ?? null;
+  }
+
+  /**
+   * Returns If-None-Match / If-Modified-Since headers for a URL,
+   * or an empty object if nothing has been recorded yet.
+   */
+  async getConditionalHeaders(url: string): Promise<Record<string, string>> {
+    const validators = await this.get(url);
+    const headers: Record<string, string> = {};
+
+    if (validators?.etag) {
+      headers["If-None-Match"] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers["If-Modified-Since"] = validators.lastModified;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Stores the validators from a successful response.
+   * Responses without validators clear any previously stored entry.
+   */
+  async record(url: string, response: Response): Promise<void> {
+    const entries = await this.load();
+    const etag = response.headers.get("ETag");
+    const lastModified = response.headers.get("Last-Modified");
+
+    if (!etag && !lastModified) {
+      if (entries.delete(url)) {
+        await this.save();
+      }
+      return;
+    }
+
+    const validators: HttpValidators = {};
+    if (etag) validators.etag = etag;
+    if (lastModified) validators.lastModified = lastModified;
+
+    entries.set(url, validators);
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    entries.clear();
+    await this.save();
+  }
+
+  private load(): Promise<Map<string, HttpValidators>> {
+    // Share one load between concurrent callers
+    this.entriesLoad ??= this.readFile().then((entries) => (this.entries = entries));
+    return this.entriesLoad;
+  }
+
+  private async readFile(): Promise<Map<string, HttpValidators>> {
+    // A missing or quarantined file reads as empty, so requests go out unconditional
+    const data = await readJsonFile<Record<string, HttpValidators>>(
+      join(this.cacheDir, VALIDATORS_FILE),
+      validateHttpValidators,
+      this.options.onQuarantine
+    );
+    return new Map(Object.entries(data ?? {}));
+  }
+
+  private async save(): Promise<void> {
+    // Serialize saves so concurrent records never interleave on disk
+    this.pendingSave = this.pendingSave.catch(() => {}).then(async () => {
+      await mkdir(this.cacheDir, { recursive: true });
+
+      const data = Object.fromEntries(this.entries ?? new Map());
+      const filePath = join(this.cacheDir, VALIDATORS_FILE);
+      await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+    });
+
+    await this.pendingSave;
+  }
+}
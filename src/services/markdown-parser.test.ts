@@ -0,0 +1,148 @@
+import { describe, it, expect } from "bun:test";
+import { MarkdownParser, type MarkdownNode } from "./markdown-parser.ts";
+
+describe("MarkdownParser", () => {
+  const parser = new MarkdownParser();
+
+  const types = (nodes: MarkdownNode[]) => nodes.map((node) => node.type);
+
+  describe("headings", () => {
+    it("should parse ATX headings and strip closing hashes", () => {
+      const nodes = parser.parse("# Title\n\n## Section ##\n\n#not-a-heading");
+
+      expect(nodes[0]).toMatchObject({ type: "heading", level: 1, text: "Title" });
+      expect(nodes[1]).toMatchObject({ type: "heading", level: 2, text: "Section" });
+      expect(nodes[2]).toMatchObject({ type: "paragraph", text: "#not-a-heading" });
+    });
+
+    it("should parse setext headings", () => {
+      const nodes = parser.parse("Title\n=====\n\nSection\n---\n");
+
+      expect(nodes[0]).toMatchObject({
+        type: "heading",
+        level: 1,
+        text: "Title",
+        line: 0,
+        endLine: 2,
+      });
+      expect(nodes[1]).toMatchObject({ type: "heading", level: 2, text: "Section" });
+    });
+
+    it("should treat a lone --- as a thematic break", () => {
+      expect(types(parser.parse("Text\n\n---\n\nMore"))).toEqual([
+        "paragraph",
+        "thematicBreak",
+        "paragraph",
+      ]);
+    });
+  });
+
+  describe("code fences", () => {
+    it("should not parse headings inside fenced code", () => {
+      const nodes = parser.parse("```bash\n## comment\necho hi\n```\n\n## Real");
+
+      expect(nodes[0]).toMatchObject({ type: "code", lang: "bash", code: "## comment\necho hi" });
+      expect(nodes.filter((node) => node.type === "heading")).toHaveLength(1);
+    });
+
+    it("should support tilde fences and longer backtick fences", () => {
+      const nodes = parser.parse("~~~python\nprint(1)\n~~~\n\n````md\n```js\nx\n```\n````");
+
+      expect(nodes[0]).toMatchObject({ type: "code", lang: "python", code: "print(1)" });
+      expect(nodes[1]).toMatchObject({ type: "code", lang: "md", code: "```js\nx\n```" });
+    });
+
+    it("should use the first word of the info string as language", () => {
+      const nodes = parser.parse('```ts title="example.ts"\nconst x = 1;\n```');
+
+      expect(nodes[0]).toMatchObject({ type: "code", lang: "ts" });
+    });
+
+    it("should run an unclosed fence to the end of the document", () => {
+      const nodes = parser.parse("```\n## inside\n");
+
+      expect(types(nodes)).toEqual(["code"]);
+    });
+
+    it("should parse indented code blocks", () => {
+      const nodes = parser.parse("Intro\n\n    ## not a heading\n    code\n");
+
+      expect(nodes[1]).toMatchObject({
+        type: "code",
+        fenced: false,
+        code: "## not a heading\ncode",
+      });
+    });
+  });
+
+  describe("html blocks", () => {
+    it("should keep markdown inside an HTML block until a blank line", () => {
+      const nodes = parser.parse("<Note>\n## Not a heading\n</Note>\n\n## Heading");
+
+      expect(nodes[0]).toMatchObject({ type: "html", html: "<Note>\n## Not a heading\n</Note>" });
+      expect(nodes[1]).toMatchObject({ type: "heading", text: "Heading" });
+    });
+
+    it("should read comments up to their closing marker", () => {
+      const nodes = parser.parse("<!--\n## hidden\n\nstill hidden\n-->\nText");
+
+      expect(types(nodes)).toEqual(["html", "paragraph"]);
+    });
+
+    it("should leave inline tags in paragraphs", () => {
+      expect(types(parser.parse("<kbd>Ctrl</kbd> + C copies"))).toEqual(["paragraph"]);
+    });
+  });
+
+  describe("lists", () => {
+    it("should nest lists and code blocks inside list items", () => {
+      const nodes = parser.parse(
+        "- Top\n  - Nested\n- Second\n\n  ```bash\n  # comment\n  ```\n- Third"
+      );
+
+      expect(nodes).toHaveLength(1);
+      const list = nodes[0]!;
+      expect(list.type).toBe("list");
+      if (list.type !== "list") return;
+
+      expect(list.items.map((item) => item.text)).toEqual(["Top", "Second", "Third"]);
+      expect(list.items[0]!.children[0]).toMatchObject({ type: "list" });
+      expect(list.items[1]!.children[0]).toMatchObject({
+        type: "code",
+        code: "# comment",
+        line: 4,
+      });
+    });
+
+    it("should join lazy continuation lines into the item text", () => {
+      const nodes = parser.parse("1. First line\ncontinued\n2. Second");
+
+      expect(nodes[0]).toMatchObject({ type: "list", ordered: true });
+      const items = nodes[0]!.type === "list" ? nodes[0]!.items : [];
+      expect(items.map((item) => item.text)).toEqual(["First line continued", "Second"]);
+    });
+
+    it("should walk list items in document order", () => {
+      const nodes = parser.parse("- A\n  - A1\n    - A1a\n- B");
+
+      const texts = [...parser.walkListItems(nodes)].map(({ item }) => item.text);
+
+      expect(texts).toEqual(["A", "A1", "A1a", "B"]);
+    });
+  });
+
+  describe("tables and frontmatter", () => {
+    it("should parse GFM tables", () => {
+      const nodes = parser.parse("| a | b |\n|---|---|\n| 1 | 2 |");
+
+      expect(nodes[0]).toMatchObject({ type: "table", headers: ["a", "b"], rows: [["1", "2"]] });
+    });
+
+    it("should parse frontmatter instead of a setext heading", () => {
+      const nodes = parser.parse("---\ntitle: Hooks\n---\n\n# Hooks");
+
+      expect(nodes[0]).toMatchObject({ type: "frontmatter", raw: "title: Hooks" });
+      expect(nodes[1]).toMatchObject({ type: "heading", level: 1, text: "Hooks" });
+    });
+  });
+});
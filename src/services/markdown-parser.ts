@@ -0,0 +1,561 @@
+interface NodePosition {
+  /** First source line of the block (0-based). */
+  line: number;
+  /** Line after the last source line of the block. */
+  endLine: number;
+}
+
+export interface HeadingNode extends NodePosition {
+  type: "heading";
+  level: number;
+  text: string;
+}
+
+export interface CodeNode extends NodePosition {
+  type: "code";
+  /** First word of the fence info string; empty for indented code. */
+  lang: string;
+  code: string;
+  fenced: boolean;
+}
+
+export interface HtmlNode extends NodePosition {
+  type: "html";
+  html: string;
+}
+
+export interface ListItem extends NodePosition {
+  /** Leading paragraph of the item, on one line. */
+  text: string;
+  /** Blocks after the leading paragraph, including nested lists. */
+  children: MarkdownNode[];
+}
+
+export interface ListNode extends NodePosition {
+  type: "list";
+  ordered: boolean;
+  items: ListItem[];
+}
+
+export interface TableNode extends NodePosition {
+  type: "table";
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ParagraphNode extends NodePosition {
+  type: "paragraph";
+  text: string;
+}
+
+export interface ThematicBreakNode extends NodePosition {
+  type: "thematicBreak";
+}
+
+export interface FrontmatterNode extends NodePosition {
+  type: "frontmatter";
+  /** YAML between the `---` delimiters. */
+  raw: string;
+}
+
+export type MarkdownNode =
+  | HeadingNode
+  | CodeNode
+  | HtmlNode
+  | ListNode
+  | TableNode
+  | ParagraphNode
+  | ThematicBreakNode
+  | FrontmatterNode;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_MARKER = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const HTML_BLOCK_TAGS =
+  "address|article|aside|blockquote|details|dialog|div|dl|dd|dt|figcaption|figure|footer|form|" +
+  "h[1-6]|header|hr|iframe|li|main|nav|ol|p|pre|script|section|style|summary|table|tbody|td|" +
+  "textarea|tfoot|th|thead|tr|ul|video";
+// Comments, block-level tags, MDX components (<Note>, <Tabs.Tab>) and lines holding a single tag
+const HTML_BLOCK_START = new RegExp(
+  "^ {0,3}(?:<!--" +
+    `|</?(?:${HTML_BLOCK_TAGS})(?:[\\s/>]|$)` +
+    "|</?[A-Z][A-Za-z0-9.]*(?:[\\s/>]|$)" +
+    "|</?[a-z][a-z0-9-]*(?:\\s[^>]*)?/?>\\s*$)"
+);
+const HTML_RAW_START = /^ {0,3}<(pre|script|style|textarea)(?:[\s>]|$)/i;
+
+/**
+ * Block-level markdown parser shared by DocsParser and ContentExtractor.
+ * Handles fenced code (``` and ~~~, any length), ATX and setext headings,
+ * HTML blocks, GFM tables, nested lists and YAML frontmatter.
+ */
+export class MarkdownParser {
+  parse(markdown: string): MarkdownNode[] {
+    const lines = markdown.split("\n");
+    const nodes: MarkdownNode[] = [];
+    let start = 0;
+
+    const frontmatter = this.parseFrontmatter(lines);
+    if (frontmatter) {
+      nodes.push(frontmatter);
+      start = frontmatter.endLine;
+    }
+
+    nodes.push(...this.parseBlocks(lines, start, 0));
+    return nodes;
+  }
+
+  /**
+   * Visits every node depth-first, including blocks nested in list items.
+   */
+  *walk(nodes: MarkdownNode[]): Generator<MarkdownNode> {
+    for (const node of nodes) {
+      yield node;
+
+      if (node.type === "list") {
+        for (const item of node.items) {
+          yield* this.walk(item.children);
+        }
+      }
+    }
+  }
+
+  /**
+   * Visits list items in document order, nested items right after their parent.
+   */
+  *walkListItems(nodes: MarkdownNode[]): Generator<{ item: ListItem; list: ListNode }> {
+    for (const node of nodes) {
+      if (node.type !== "list") {
+        continue;
+      }
+
+      for (const item of node.items) {
+        yield { item, list: node };
+        yield* this.walkListItems(item.children);
+      }
+    }
+  }
+
+  private parseFrontmatter(lines: string[]): FrontmatterNode | null {
+    if (lines[0]?.trimEnd() !== "---") {
+      return null;
+    }
+
+    for (let i = 1; i < lines.length; i++) {
+      if (/^(---|\.\.\.)\s*$/.test(lines[i]!)) {
+        return {
+          type: "frontmatter",
+          raw: lines.slice(1, i).join("\n"),
+          line: 0,
+          endLine: i + 1,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parses `lines[from..]` into blocks. `offset` maps local indexes back to
+   * source lines when parsing the de-indented content of a list item.
+   */
+  private parseBlocks(lines: string[], from: number, offset: number): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+    let i = from;
+
+    while (i < lines.length) {
+      const line = lines[i]!;
+
+      if (!line.trim()) {
+        i++;
+        continue;
+      }
+
+      const node =
+        this.parseFence(lines, i) ??
+        this.parseIndentedCode(lines, i) ??
+        this.parseAtxHeading(line, i) ??
+        this.parseThematicBreak(line, i) ??
+        this.parseHtml(lines, i) ??
+        this.parseTable(lines, i) ??
+        this.parseList(lines, i, offset) ??
+        this.parseParagraph(lines, i);
+
+      i = node.endLine;
+      nodes.push(this.shift(node, offset));
+    }
+
+    return nodes;
+  }
+
+  private parseFence(lines: string[], i: number): CodeNode | null {
+    const open = lines[i]!.match(FENCE_OPEN);
+    if (!open) {
+      return null;
+    }
+
+    const indent = open[1]!.length;
+    const fence = open[2]!;
+    const info = open[3]!.trim();
+
+    // Backtick fences cannot carry backticks in their info string
+    if (fence[0] === "`" && info.includes("`")) {
+      return null;
+    }
+
+    const close = new RegExp(`^ {0,3}${fence[0] === "`" ? "`" : "~"}{${fence.length},}[ \\t]*$`);
+    const code: string[] = [];
+    let j = i + 1;
+
+    // An unclosed fence runs to the end of the document
+    while (j < lines.length && !close.test(lines[j]!)) {
+      code.push(stripIndent(lines[j]!, indent));
+      j++;
+    }
+
+    return {
+      type: "code",
+      lang: info.split(/\s+/)[0] ?? "",
+      code: code.join("\n"),
+      fenced: true,
+      line: i,
+      endLine: Math.min(j + 1, lines.length),
+    };
+  }
+
+  private parseIndentedCode(lines: string[], i: number): CodeNode | null {
+    if (indentOf(lines[i]!) < 4) {
+      return null;
+    }
+
+    let j = i;
+    let end = i;
+    while (j < lines.length && (!lines[j]!.trim() || indentOf(lines[j]!) >= 4)) {
+      if (lines[j]!.trim()) {
+        end = j + 1;
+      }
+      j++;
+    }
+
+    return {
+      type: "code",
+      lang: "",
+      code: lines
+        .slice(i, end)
+        .map((line) => stripIndent(line, 4))
+        .join("\n"),
+      fenced: false,
+      line: i,
+      endLine: end,
+    };
+  }
+
+  private parseAtxHeading(line: string, i: number): HeadingNode | null {
+    const match = line.match(ATX_HEADING);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      type: "heading",
+      level: match[1]!.length,
+      text: (match[2] ?? "").trim(),
+      line: i,
+      endLine: i + 1,
+    };
+  }
+
+  private parseThematicBreak(line: string, i: number): ThematicBreakNode | null {
+    return THEMATIC_BREAK.test(line) ? { type: "thematicBreak", line: i, endLine: i + 1 } : null;
+  }
+
+  private parseHtml(lines: string[], i: number): HtmlNode | null {
+    const first = lines[i]!;
+    if (!HTML_BLOCK_START.test(first)) {
+      return null;
+    }
+
+    // Comments and raw-text elements end at their closing marker; others at a blank line
+    const raw = first.match(HTML_RAW_START);
+    const endMarker = /^ {0,3}<!--/.test(first)
+      ? "-->"
+      : raw
+        ? `</${raw[1]!.toLowerCase()}>`
+        : null;
+
+    let j = i;
+    if (endMarker) {
+      while (j < lines.length && !lines[j]!.toLowerCase().includes(endMarker)) {
+        j++;
+      }
+      j = Math.min(j + 1, lines.length);
+    } else {
+      while (j < lines.length && lines[j]!.trim()) {
+        j++;
+      }
+    }
+
+    return { type: "html", html: lines.slice(i, j).join("\n"), line: i, endLine: j };
+  }
+
+  private parseTable(lines: string[], i: number): TableNode | null {
+    if (!isTableRow(lines[i]!) || i + 1 >= lines.length || !isTableSeparator(lines[i + 1]!)) {
+      return null;
+    }
+
+    const rows: string[][] = [];
+    let j = i + 2;
+    while (j < lines.length && isTableRow(lines[j]!)) {
+      rows.push(parseTableRow(lines[j]!));
+      j++;
+    }
+
+    return {
+      type: "table",
+      headers: parseTableRow(lines[i]!),
+      rows,
+      line: i,
+      endLine: j,
+    };
+  }
+
+  private parseList(lines: string[], i: number, offset: number): ListNode | null {
+    const first = parseListMarker(lines[i]!);
+    if (!first) {
+      return null;
+    }
+
+    const items: ListItem[] = [];
+    let marker: ListMarker | null = first;
+    let j = i;
+
+    while (marker && isSameList(first, marker)) {
+      const itemStart = j;
+      const itemLines = [marker.content];
+      let inFence: string | null = fenceOpener(marker.content);
+      j++;
+
+      while (j < lines.length) {
+        const line = lines[j]!;
+
+        if (!line.trim()) {
+          itemLines.push("");
+        } else if (indentOf(line) >= marker.contentIndent) {
+          itemLines.push(stripIndent(line, marker.contentIndent));
+        } else if (!inFence && itemLines[itemLines.length - 1]!.trim() && !startsBlock(line)) {
+          // Lazy continuation of the item's paragraph
+          itemLines.push(line.trim());
+        } else {
+          break;
+        }
+
+        inFence = updateFence(inFence, itemLines[itemLines.length - 1]!);
+        j++;
+      }
+
+      // Trailing blank lines separate items; they do not belong to this one
+      while (itemLines.length > 1 && !itemLines[itemLines.length - 1]!.trim()) {
+        itemLines.pop();
+        j--;
+      }
+
+      const blocks = this.parseBlocks(itemLines, 0, offset + itemStart);
+      const lead = blocks[0]?.type === "paragraph" ? blocks.shift() : undefined;
+
+      items.push({
+        text: lead?.type === "paragraph" ? lead.text.replace(/\n/g, " ") : "",
+        children: blocks,
+        line: offset + itemStart,
+        endLine: offset + j,
+      });
+
+      // Skip blank lines between items
+      let next = j;
+      while (next < lines.length && !lines[next]!.trim()) {
+        next++;
+      }
+      marker = next < lines.length ? parseListMarker(lines[next]!) : null;
+      if (marker && isSameList(first, marker)) {
+        j = next;
+      }
+    }
+
+    return { type: "list", ordered: first.ordered, items, line: i, endLine: j };
+  }
+
+  private parseParagraph(lines: string[], i: number): ParagraphNode | HeadingNode {
+    const text: string[] = [lines[i]!.trim()];
+    let j = i + 1;
+
+    while (j < lines.length && lines[j]!.trim()) {
+      const setext = lines[j]!.match(SETEXT_UNDERLINE);
+      if (setext) {
+        return {
+          type: "heading",
+          level: setext[1]![0] === "=" ? 1 : 2,
+          text: text.join(" "),
+          line: i,
+          endLine: j + 1,
+        };
+      }
+
+      if (startsBlock(lines[j]!) || isTableStart(lines, j)) {
+        break;
+      }
+
+      text.push(lines[j]!.trim());
+      j++;
+    }
+
+    return { type: "paragraph", text: text.join("\n"), line: i, endLine: j };
+  }
+
+  /**
+   * Moves a node parsed from list item content to its source line numbers.
+   */
+  private shift<T extends MarkdownNode>(node: T, offset: number): T {
+    if (offset === 0) {
+      return node;
+    }
+
+    return { ...node, line: node.line + offset, endLine: node.endLine + offset };
+  }
+}
+
+interface ListMarker {
+  ordered: boolean;
+  /** Bullet character, or `.` / `)` for ordered lists. */
+  delimiter: string;
+  contentIndent: number;
+  content: string;
+}
+
+function parseListMarker(line: string): ListMarker | null {
+  if (THEMATIC_BREAK.test(line)) {
+    return null;
+  }
+
+  const match = line.match(LIST_MARKER);
+  if (!match) {
+    return null;
+  }
+
+  const indent = match[1]!.length;
+  const marker = match[2]!;
+  const spacing = match[3] ?? "";
+  const content = match[4] ?? "";
+  const ordered = /\d/.test(marker[0]!);
+
+  // Content starting 5+ columns after the marker is indented code, not padding
+  const padding = !content || spacing.length > 4 ? 1 : spacing.length;
+
+  return {
+    ordered,
+    delimiter: ordered ? marker[marker.length - 1]! : marker,
+    contentIndent: indent + marker.length + padding,
+    content: spacing.length > 4 ? " ".repeat(spacing.length - 1) + content : content,
+  };
+}
+
+function isSameList(first: ListMarker, next: ListMarker): boolean {
+  return first.ordered === next.ordered && first.delimiter === next.delimiter;
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph.
+ */
+function startsBlock(line: string): boolean {
+  return (
+    ATX_HEADING.test(line) ||
+    FENCE_OPEN.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    HTML_BLOCK_START.test(line) ||
+    (LIST_MARKER.test(line) && !!line.match(LIST_MARKER)![4]?.trim())
+  );
+}
+
+function fenceOpener(line: string): string | null {
+  return line.match(FENCE_OPEN)?.[2] ?? null;
+}
+
+/**
+ * Tracks whether list item content is inside a fence after adding `line`.
+ */
+function updateFence(open: string | null, line: string): string | null {
+  if (!open) {
+    return fenceOpener(line);
+  }
+
+  const trimmed = line.trim();
+  const closes =
+    trimmed.length >= open.length && trimmed === open[0]!.repeat(trimmed.length);
+  return closes ? null : open;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return isTableRow(lines[i]!) && i + 1 < lines.length && isTableSeparator(lines[i + 1]!);
+}
+
+function isTableRow(line: string): boolean {
+  return line.includes("|") && line.trim().startsWith("|");
+}
+
+function isTableSeparator(line: string): boolean {
+  // Matches |---|---| or | --- | --- | patterns
+  return /^\|[\s-:|]+\|$/.test(line.trim());
+}
+
+function parseTableRow(line: string): string[] {
+  // Remove leading/trailing pipes and split by |
+  const trimmed = line.trim();
+  const withoutPipes = trimmed.slice(1, trimmed.length - 1);
+  return withoutPipes.split("|").map((cell) => cell.trim());
+}
+
+/**
+ * Leading whitespace width, with tabs advancing to the next multiple of 4.
+ */
+function indentOf(line: string): number {
+  let column = 0;
+
+  for (const char of line) {
+    if (char === " ") {
+      column++;
+    } else if (char === "\t") {
+      column += 4 - (column % 4);
+    } else {
+      break;
+    }
+  }
+
+  return column;
+}
+
+/**
+ * Removes up to `width` columns of leading whitespace.
+ */
+function stripIndent(line: string, width: number): string {
+  let column = 0;
+  let i = 0;
+
+  while (i < line.length && column < width) {
+    const char = line[i];
+
+    if (char === " ") {
+      column++;
+    } else if (char === "\t") {
+      const tabWidth = 4 - (column % 4);
+      if (column + tabWidth > width) {
+        return " ".repeat(column + tabWidth - width) + line.slice(i + 1);
+      }
+      column += tabWidth;
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  return line.slice(i);
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "bun:test";
+import { MdxNormalizer } from "./mdx-normalizer.ts";
+import { ContentExtractor } from "./content-extractor.ts";
+
+describe("MdxNormalizer", () => {
+  const normalizer = new MdxNormalizer();
+
+  describe("normalize", () => {
+    it("should turn callouts into labelled blockquotes", () => {
+      const result = normalizer.normalize("<Note>\n  Requires Node 18.\n\n  Or Bun.\n</Note>");
+
+      expect(result).toBe("> **Note:**\n>\n> Requires Node 18.\n>\n> Or Bun.");
+    });
+
+    it("should use a callout's title as its label", () => {
+      const result = normalizer.normalize('<Warning title="Heads up">Back up first.</Warning>');
+
+      expect(result).toBe("> **Heads up:**\n>\n> Back up first.");
+    });
+
+    it("should turn tabs into subsections below the enclosing heading", () => {
+      const mdx = [
+        "## Install",
+        "",
+        "<Tabs>",
+        '  <Tab title="macOS">',
+        "    Use Homebrew.",
+        "  </Tab>",
+        "  <Tab>",
+        "    Use WSL.",
+        "  </Tab>",
+        "</Tabs>",
+      ].join("\n");
+
+      expect(normalizer.normalize(mdx)).toBe(
+        "## Install\n\n### macOS\n\nUse Homebrew.\n\n### Tab 2\n\nUse WSL."
+      );
+    });
+
+    it("should number steps and keep their titles", () => {
+      const mdx = '<Steps>\n  <Step title="Log in">\n    Run `claude`.\n  </Step>\n</Steps>';
+
+      expect(normalizer.normalize(mdx)).toBe("## Step 1: Log in\n\nRun `claude`.");
+    });
+
+    it("should split code groups into labelled fenced blocks", () => {
+      const mdx = [
+        "<CodeGroup>",
+        "```bash npm",
+        "npm install -g pkg",
+        "```",
+        "",
+        '```bash title="yarn"',
+        "yarn global add pkg",
+        "```",
+        "</CodeGroup>",
+      ].join("\n");
+
+      expect(normalizer.normalize(mdx)).toBe(
+        "**npm**\n\n```bash\nnpm install -g pkg\n```\n\n" +
+          "**yarn**\n\n```bash\nyarn global add pkg\n```"
+      );
+    });
+
+    it("should render cards as links and unwrap unknown components", () => {
+      const mdx =
+        '<CardGroup>\n<Card title="Hooks" href="/en/hooks">\n  Automate.\n</Card>\n</CardGroup>';
+
+      expect(normalizer.normalize(mdx)).toBe("**[Hooks](/en/hooks)**\n\nAutomate.");
+    });
+
+    it("should leave components inside code blocks alone", () => {
+      const mdx = "```mdx\n<Note>\n  Example\n</Note>\n```";
+
+      expect(normalizer.normalize(mdx)).toBe(mdx);
+    });
+
+    it("should keep inline components within a line", () => {
+      expect(normalizer.normalize("Press <Kbd>Ctrl</Kbd> to exit.")).toBe(
+        "Press <Kbd>Ctrl</Kbd> to exit."
+      );
+    });
+
+    it("should make tables and code inside tabs extractable", () => {
+      const mdx = [
+        "## Exit codes",
+        "",
+        "<Tabs>",
+        '  <Tab title="Shell">',
+        "    | Code | Meaning |",
+        "    | --- | --- |",
+        "    | 2 | Block |",
+        "",
+        "    ```bash",
+        "    exit 2",
+        "    ```",
+        "  </Tab>",
+        "</Tabs>",
+      ].join("\n");
+      const extractor = new ContentExtractor();
+
+      expect(extractor.extractTables(mdx)).toEqual([]);
+
+      const section = extractor.extractSection(normalizer.normalize(mdx), "Exit codes");
+
+      expect(section!.tables).toEqual([{ headers: ["Code", "Meaning"], rows: [["2", "Block"]] }]);
+      expect(section!.codeBlocks).toEqual([{ language: "bash", code: "exit 2" }]);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+// Components rendered as `> **Label:** ...` blockquotes
+const CALLOUTS: Record<string, string> = {
+  Note: "Note",
+  Tip: "Tip",
+  Info: "Info",
+  Warning: "Warning",
+  Danger: "Danger",
+  Check: "Check",
+  Callout: "Note",
+};
+
+// Components whose children become labelled subsections
+const SECTIONS = new Set(["Tab", "Step", "Accordion", "Update"]);
+
+const FENCE = /^(`{3,}|~{3,})(.*)$/;
+const HEADING = /^(#{1,6})\s/;
+
+// A line holding one opening, closing or self-closing component tag: <Tab title="npm">
+const COMPONENT_TAG = /^<(\/)?([A-Z][A-Za-z0-9.]*)((?:\s[^>]*?)?)(\/)?>$/;
+
+// `<Note>Text</Note>`, `<Tip>Text` or `Text</Tip>`; inline tags within the text are kept
+const LEADING_TAG = /^(<[A-Z][A-Za-z0-9.]*(?:\s[^>]*?)?>)(.+)$/;
+const TRAILING_TAG = /^(.+?)(<\/[A-Z][A-Za-z0-9.]*>)$/;
+
+interface OpenComponent {
+  name: string;
+  /** Indentation stripped from the component's children. */
+  indent: number | null;
+  /** Running count of children, for untitled tabs and steps. */
+  children: number;
+}
+
+/**
+ * Rewrites Mintlify MDX components as plain markdown so ContentExtractor
+ * can see the tables and code inside them: callouts become blockquotes,
+ * tabs, steps and accordions become headings one level below the
+ * enclosing section, and code groups become labelled fenced blocks.
+ * Unknown components are unwrapped. Code blocks are left untouched.
+ */
+export class MdxNormalizer {
+  normalize(markdown: string): string {
+    const output: string[] = [];
+    const stack: OpenComponent[] = [];
+    let fence: string | null = null;
+    let headingLevel = 1;
+
+    for (const rawLine of markdown.split("\n")) {
+      const line = this.dedent(rawLine, stack);
+
+      if (fence) {
+        output.push(this.quote(line, stack));
+        if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, "") === "") {
+          fence = null;
+        }
+        continue;
+      }
+
+      const fenceMatch = line.trim().match(FENCE);
+      if (fenceMatch) {
+        fence = fenceMatch[1]!;
+        output.push(this.quote(this.codeGroupFence(line, fenceMatch, stack, output), stack));
+        continue;
+      }
+
+      for (const part of this.splitInlineTags(line, stack)) {
+        const tag = part.trim().match(COMPONENT_TAG);
+        if (!part.trim()) {
+          const last = output[output.length - 1];
+          if (last !== undefined && last !== "" && last !== ">") {
+            output.push(this.quote("", stack));
+          }
+          continue;
+        }
+        if (!tag) {
+          const heading = part.match(HEADING);
+          if (heading && stack.length === 0) {
+            headingLevel = heading[1]!.length;
+          }
+          output.push(this.quote(part, stack));
+          continue;
+        }
+
+        const [, closing, name, attributes, selfClosing] = tag;
+        if (closing) {
+          this.close(name!, stack);
+          this.blank(output);
+        } else {
+          const depth = stack.filter((open) => SECTIONS.has(open.name)).length;
+          this.open(name!, attributes ?? "", stack, output, headingLevel + depth + 1);
+          if (selfClosing) {
+            stack.pop();
+          }
+        }
+      }
+    }
+
+    return output.join("\n").trim().concat(markdown.endsWith("\n") ? "\n" : "");
+  }
+
+  private open(
+    name: string,
+    attributes: string,
+    stack: OpenComponent[],
+    output: string[],
+    level: number
+  ): void {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children++;
+    }
+    stack.push({ name, indent: null, children: 0 });
+
+    const title = this.attribute(attributes, "title");
+    const label = this.attribute(attributes, "label");
+
+    if (CALLOUTS[name]) {
+      this.blank(output);
+      output.push(this.quote(`**${title ?? CALLOUTS[name]}:**`, stack), this.quote("", stack));
+      return;
+    }
+
+    if (SECTIONS.has(name)) {
+      const index = parent?.children ?? 1;
+      const fallback = name === "Step" ? `Step ${index}` : `${name} ${index}`;
+      const text = name === "Step" && title ? `Step ${index}: ${title}` : title ?? label;
+      this.blank(output);
+      output.push(`${"#".repeat(Math.min(level, 6))} ${text ?? fallback}`, "");
+      return;
+    }
+
+    if (name === "Card") {
+      const href = this.attribute(attributes, "href");
+      if (title) {
+        this.blank(output);
+        output.push(href ? `**[${title}](${href})**` : `**${title}**`, "");
+      }
+      return;
+    }
+
+    this.blank(output);
+  }
+
+  /** Adds a paragraph break unless the output already ends with one. */
+  private blank(output: string[]): void {
+    const last = output[output.length - 1];
+    if (last !== undefined && last !== "" && last !== ">") {
+      output.push("");
+    }
+  }
+
+  private close(name: string, stack: OpenComponent[]): void {
+    // Tolerate unbalanced markup by closing up to the matching component
+    const index = stack.map((open) => open.name).lastIndexOf(name);
+    if (index !== -1) {
+      stack.length = index;
+    }
+  }
+
+  /** Moves a code group tab's label (```bash npm) out of the fence info string. */
+  private codeGroupFence(
+    line: string,
+    match: RegExpMatchArray,
+    stack: OpenComponent[],
+    output: string[]
+  ): string {
+    if (stack[stack.length - 1]?.name !== "CodeGroup") {
+      return line;
+    }
+
+    const [lang, ...rest] = match[2]!.trim().split(/\s+/);
+    const label = this.attribute(rest.join(" "), "title") ?? rest.join(" ").trim();
+    if (label) {
+      this.blank(output);
+      output.push(this.quote(`**${label}**`, stack), this.quote("", stack));
+    }
+    return `${match[1]}${lang ?? ""}`;
+  }
+
+  /** Strips the indentation of the innermost component's children. */
+  private dedent(line: string, stack: OpenComponent[]): string {
+    const current = stack[stack.length - 1];
+    if (!current || !line.trim()) {
+      return line.trimStart() === "" ? "" : line;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    if (current.indent === null) {
+      current.indent = indent;
+    }
+    return line.slice(Math.min(indent, current.indent));
+  }
+
+  private quote(line: string, stack: OpenComponent[]): string {
+    const inCallout = stack.some((open) => CALLOUTS[open.name]);
+    if (!inCallout) {
+      return line;
+    }
+    return line ? `> ${line}` : ">";
+  }
+
+  private splitInlineTags(line: string, stack: OpenComponent[]): string[] {
+    const trimmed = line.trim();
+    if (COMPONENT_TAG.test(trimmed)) {
+      return [trimmed];
+    }
+
+    const open = stack.map((component) => component.name);
+    const leading = trimmed.match(LEADING_TAG);
+    const leadingName = leading?.[1]!.match(/^<([A-Za-z0-9.]+)/)?.[1];
+    const text = leading ? leading[2]!.trim() : trimmed;
+    const closingIndex = leadingName ? text.indexOf(`</${leadingName}>`) : -1;
+
+    // `<Kbd>Ctrl</Kbd> to exit` is inline markup, not a component wrapping the line
+    if (leading && closingIndex !== -1 && !text.endsWith(`</${leadingName}>`)) {
+      return [line];
+    }
+    if (leadingName) {
+      open.push(leadingName);
+    }
+
+    const trailing = text.match(TRAILING_TAG);
+    const closes = trailing && open.some((name) => trailing[2] === `</${name}>`);
+    if (!leading && !closes) {
+      return [line];
+    }
+
+    const parts = closes ? [leading?.[1], trailing[1]!.trim(), trailing[2]] : [leading![1], text];
+    return parts.filter((part): part is string => !!part);
+  }
+
+  private attribute(attributes: string, name: string): string | undefined {
+    const match = attributes.match(
+      new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)'|\\{["'\`]([^"'\`]*)["'\`]\\})`)
+    );
+    return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { MirrorTransport, mirrorRoutes } from "./mirror-transport.ts";
+import { DocsFetcher } from "./docs-fetcher.ts";
+import { ReferenceManager } from "./reference-manager.ts";
+import { ReferenceGeneratorOrchestrator } from "./reference-generators/index.ts";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+describe("MirrorTransport", () => {
+  const testMirrorDir = "/tmp/phoenixlab-mirror-test";
+  const testReferencesDir = "/tmp/phoenixlab-mirror-refs-test";
+  let transport: MirrorTransport;
+
+  const MIRROR_RELEASES = [
+    {
+      tag_name: "v2.1.0",
+      name: "v2.1.0",
+      body: "- Added mirror support",
+      published_at: "2026-02-01T00:00:00Z",
+      html_url: "https://github.com/anthropics/claude-code/releases/tag/v2.1.0",
+    },
+  ];
+
+  beforeEach(async () => {
+    await rm(testMirrorDir, { recursive: true, force: true });
+    await mkdir(join(testMirrorDir, "en"), { recursive: true });
+    await writeFile(join(testMirrorDir, "llms.txt"), "# Claude Code Docs\n\n## Docs\n");
+    await writeFile(join(testMirrorDir, "en", "hooks.md"), "# Hooks reference\n");
+    await writeFile(join(testMirrorDir, "releases.json"), JSON.stringify(MIRROR_RELEASES));
+    transport = new MirrorTransport(testMirrorDir);
+  });
+
+  afterEach(async () => {
+    await rm(testMirrorDir, { recursive: true, force: true });
+    await rm(testReferencesDir, { recursive: true, force: true });
+  });
+
+  describe("resolvePath", () => {
+    it("should map llms.txt and doc pages into the mirror", () => {
+      expect(transport.resolvePath("https://code.claude.com/docs/llms.txt")).toBe(
+        join(testMirrorDir, "llms.txt")
+      );
+      expect(transport.resolvePath("https://code.claude.com/docs/en/hooks.md")).toBe(
+        join(testMirrorDir, "en", "hooks.md")
+      );
+    });
+
+    it("should map every releases API page to releases.json", () => {
+      expect(
+        transport.resolvePath(
+          "https://api.github.com/repos/anthropics/claude-code/releases?per_page=100&page=2"
+        )
+      ).toBe(join(testMirrorDir, "releases.json"));
+    });
+
+    it("should serve releases for a configured GitHub API URL", () => {
+      const enterprise = new MirrorTransport(
+        testMirrorDir,
+        mirrorRoutes("https://github.example.com/api/v3/")
+      );
+
+      expect(
+        enterprise.resolvePath(
+          "https://github.example.com/api/v3/repos/anthropics/claude-code/releases"
+        )
+      ).toBe(join(testMirrorDir, "releases.json"));
+      expect(
+        enterprise.resolvePath("https://api.github.com/repos/anthropics/claude-code/releases")
+      ).toBeNull();
+    });
+
+    it("should return null for unknown URLs", () => {
+      expect(transport.resolvePath("https://example.com/other.md")).toBeNull();
+    });
+
+    it("should not resolve paths outside the mirror", () => {
+      expect(
+        transport.resolvePath("https://code.claude.com/docs/en/..%2F..%2F..%2Fetc%2Fpasswd")
+      ).toBeNull();
+    });
+
+    it("should accept file:// mirror locations", () => {
+      const fileTransport = new MirrorTransport(pathToFileURL(testMirrorDir).href);
+
+      expect(fileTransport.resolvePath("https://code.claude.com/docs/llms.txt")).toBe(
+        join(testMirrorDir, "llms.txt")
+      );
+    });
+  });
+
+  describe("fetch", () => {
+    it("should serve mirrored files with status 200", async () => {
+      const response = await transport.fetch("https://code.claude.com/docs/en/hooks.md");
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe("# Hooks reference\n");
+    });
+
+    it("should return 404 for pages missing from the mirror", async () => {
+      const response = await transport.fetch("https://code.claude.com/docs/en/missing.md");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 404 for malformed percent-encoding", async () => {
+      const response = await transport.fetch("https://code.claude.com/docs/en/%E0%A4%A.md");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should throw for URLs the mirror does not cover", async () => {
+      expect(transport.fetch("https://example.com/other.md")).rejects.toThrow(
+        "URL is not covered by the documentation mirror"
+      );
+    });
+  });
+
+  describe("pipeline integration", () => {
+    it("should let DocsFetcher read docs and releases offline", async () => {
+      const fetcher = new DocsFetcher({ transport });
+
+      const result = await fetcher.fetchAll();
+
+      expect(result.docs!.content).toContain("# Claude Code Docs");
+      expect(result.releases).toHaveLength(1);
+      expect(result.releases![0]!.tagName).toBe("v2.1.0");
+    });
+
+    it("should let generators regenerate references offline", async () => {
+      const orchestrator = new ReferenceGeneratorOrchestrator(
+        new ReferenceManager(testReferencesDir),
+        { transport }
+      );
+
+      const result = await orchestrator.generateCategory("hooks");
+
+      expect(result.success).toBe(true);
+      expect(result.filesGenerated).toBeGreaterThan(0);
+    });
+  });
+});
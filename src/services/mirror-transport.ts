@@ -0,0 +1,102 @@
+import { readFile, exists } from "node:fs/promises";
+import { join, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { HttpTransport } from "./http-transport.ts";
+import { DEFAULT_GITHUB_API_URL, GITHUB_RELEASES_PATH } from "./docs-fetcher.ts";
+
+export interface MirrorRoute {
+  /** URL prefix served from the mirror (query string and hash are ignored). */
+  urlPrefix: string;
+  /** Path inside the mirror; the rest of the URL is appended unless `exact` is set. */
+  path: string;
+  exact?: boolean;
+}
+
+/**
+ * Default mirror layout, with releases served for the given GitHub API URL:
+ *   <mirror>/llms.txt        ← https://code.claude.com/docs/llms.txt
+ *   <mirror>/en/<page>.md    ← https://code.claude.com/docs/en/<page>.md
+ *   <mirror>/releases.json   ← GitHub releases API dump
+ *   <mirror>/CHANGELOG.md    ← repository CHANGELOG
+ */
+export function mirrorRoutes(githubApiUrl: string = DEFAULT_GITHUB_API_URL): MirrorRoute[] {
+  return [
+    {
+      urlPrefix: githubApiUrl.replace(/\/+$/, "") + GITHUB_RELEASES_PATH,
+      path: "releases.json",
+      exact: true,
+    },
+    {
+      urlPrefix: "https://raw.githubusercontent.com/anthropics/claude-code/main/CHANGELOG.md",
+      path: "CHANGELOG.md",
+      exact: true,
+    },
+    { urlPrefix: "https://code.claude.com/docs/", path: "" },
+  ];
+}
+
+export const DEFAULT_MIRROR_ROUTES: MirrorRoute[] = mirrorRoutes();
+
+/**
+ * Serves documentation requests from a local directory or file:// mirror,
+ * so the pipeline can run without network access.
+ */
+export class MirrorTransport implements HttpTransport {
+  private root: string;
+
+  constructor(
+    mirror: string,
+    private routes: MirrorRoute[] = DEFAULT_MIRROR_ROUTES
+  ) {
+    this.root = resolve(mirror.startsWith("file://") ? fileURLToPath(mirror) : mirror);
+  }
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    let filePath: string | null;
+    try {
+      filePath = this.resolvePath(url);
+    } catch (error) {
+      if (error instanceof URIError) {
+        return new Response(`Malformed path in ${url}`, { status: 404 });
+      }
+      throw error;
+    }
+
+    if (!filePath) {
+      throw new Error(`URL is not covered by the documentation mirror: ${url}`);
+    }
+
+    if (!(await exists(filePath))) {
+      return new Response(`Not found in mirror: ${filePath}`, { status: 404 });
+    }
+
+    return new Response(await readFile(filePath, "utf-8"), { status: 200 });
+  }
+
+  /**
+   * Maps a URL to a file inside the mirror, or null if no route matches.
+   * Throws URIError when the path is not valid percent-encoding.
+   */
+  resolvePath(url: string): string | null {
+    const parsed = new URL(url);
+    const target = `${parsed.origin}${parsed.pathname}`;
+
+    for (const route of this.routes) {
+      if (!target.startsWith(route.urlPrefix)) {
+        continue;
+      }
+
+      const rest = route.exact ? "" : target.slice(route.urlPrefix.length);
+      const filePath = resolve(join(this.root, route.path, decodeURIComponent(rest)));
+
+      // Never serve files outside the mirror directory
+      if (filePath !== this.root && !filePath.startsWith(this.root + sep)) {
+        return null;
+      }
+
+      return filePath;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { PageCache } from "./page-cache.ts";
+import type { QuarantineReport } from "./quarantine.ts";
+import { mkdir, rm, readFile, writeFile, exists } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("PageCache", () => {
+  const testCacheDir = "/tmp/phoenixlab-page-cache-test";
+  let pageCache: PageCache;
+
+  const hooksPage = {
+    slug: "hooks",
+    url: "https://code.claude.com/docs/en/hooks.md",
+    title: "Hooks reference",
+    content: "# Hooks reference\n\nContent",
+  };
+
+  beforeEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+    await mkdir(testCacheDir, { recursive: true });
+    pageCache = new PageCache(testCacheDir);
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  describe("writePage", () => {
+    it("should write page content to pages/<slug>.md", async () => {
+      await pageCache.writePage(hooksPage);
+
+      const pagePath = join(testCacheDir, "pages", "hooks.md");
+      expect(await readFile(pagePath, "utf-8")).toBe(hooksPage.content);
+    });
+
+    it("should record fetch time, hash and size in the index", async () => {
+      const fetchedAt = new Date("2026-02-05T10:00:00Z");
+
+      const entry = await pageCache.writePage(hooksPage, fetchedAt);
+
+      expect(entry.fetchedAt).toEqual(fetchedAt);
+      expect(entry.checkedAt).toEqual(fetchedAt);
+      expect(entry.hash).toBe(pageCache.hashContent(hooksPage.content));
+      expect(entry.hash).toHaveLength(64);
+      expect(entry.bytes).toBe(hooksPage.content.length);
+      expect(await exists(join(testCacheDir, "pages", "index.json"))).toBe(true);
+    });
+
+    it("should keep every entry when pages are written concurrently", async () => {
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          pageCache.writePage({ ...hooksPage, slug: `page-${i}`, content: `# Page ${i}` })
+        )
+      );
+
+      const reloaded = new PageCache(testCacheDir);
+      expect(await reloaded.listEntries()).toHaveLength(10);
+    });
+  });
+
+  describe("readPage", () => {
+    it("should read content and metadata back", async () => {
+      await pageCache.writePage(hooksPage);
+
+      const page = await new PageCache(testCacheDir).readPage("hooks");
+
+      expect(page).not.toBeNull();
+      expect(page!.content).toBe(hooksPage.content);
+      expect(page!.url).toBe(hooksPage.url);
+      expect(page!.title).toBe("Hooks reference");
+      expect(page!.fetchedAt).toBeInstanceOf(Date);
+    });
+
+    it("should return null for unknown slugs", async () => {
+      expect(await pageCache.readPage("missing")).toBeNull();
+    });
+
+    it("should quarantine a truncated index and read it as empty", async () => {
+      await pageCache.writePage(hooksPage);
+      const indexPath = join(testCacheDir, "pages", "index.json");
+      await writeFile(indexPath, '{"hooks": {"slug": "ho');
+      const reports: QuarantineReport[] = [];
+
+      const reloaded = new PageCache(testCacheDir, {
+        onQuarantine: (report) => reports.push(report),
+      });
+
+      expect(await reloaded.readPage("hooks")).toBeNull();
+      expect(await exists(indexPath)).toBe(false);
+      expect(reports).toHaveLength(1);
+      expect(reports[0]!.quarantinedPath).toStartWith(`${indexPath}.corrupt-`);
+      expect(await exists(reports[0]!.quarantinedPath)).toBe(true);
+    });
+  });
+
+  describe("touchPage", () => {
+    it("should update checkedAt without changing fetchedAt", async () => {
+      const fetchedAt = new Date("2026-02-01T00:00:00Z");
+      const checkedAt = new Date("2026-02-05T00:00:00Z");
+      await pageCache.writePage(hooksPage, fetchedAt);
+
+      await pageCache.touchPage("hooks", checkedAt);
+
+      const entry = await pageCache.getEntry("hooks");
+      expect(entry!.fetchedAt).toEqual(fetchedAt);
+      expect(entry!.checkedAt).toEqual(checkedAt);
+    });
+  });
+
+  describe("deletePage", () => {
+    it("should remove the page file and index entry", async () => {
+      await pageCache.writePage(hooksPage);
+
+      const deleted = await pageCache.deletePage("hooks");
+
+      expect(deleted).toBe(true);
+      expect(await pageCache.getEntry("hooks")).toBeNull();
+      expect(await exists(join(testCacheDir, "pages", "hooks.md"))).toBe(false);
+    });
+
+    it("should return false for unknown slugs", async () => {
+      expect(await pageCache.deletePage("missing")).toBe(false);
+    });
+  });
+
+  describe("verify", () => {
+    it("should report missing, modified and unindexed page files", async () => {
+      await pageCache.writePage(hooksPage);
+      await pageCache.writePage({ ...hooksPage, slug: "skills" });
+      await writeFile(join(testCacheDir, "pages", "hooks.md"), "edited by hand");
+      await rm(join(testCacheDir, "pages", "skills.md"));
+      await writeFile(join(testCacheDir, "pages", "stray.md"), "# Stray");
+
+      expect(await pageCache.verify()).toEqual([
+        { slug: "hooks", problem: "hash mismatch" },
+        { slug: "skills", problem: "missing file" },
+        { slug: "stray", problem: "not in index" },
+      ]);
+    });
+
+    it("should report nothing for a consistent cache", async () => {
+      await pageCache.writePage(hooksPage);
+
+      expect(await pageCache.verify()).toEqual([]);
+    });
+  });
+
+  describe("removeOrphans", () => {
+    it("should delete unindexed files and entries without files", async () => {
+      await pageCache.writePage(hooksPage);
+      await pageCache.writePage({ ...hooksPage, slug: "skills" });
+      await rm(join(testCacheDir, "pages", "skills.md"));
+      await writeFile(join(testCacheDir, "pages", "stray.md"), "# Stray");
+
+      const removed = await pageCache.removeOrphans();
+
+      expect(removed).toEqual(["skills", "stray"]);
+      expect(await exists(join(testCacheDir, "pages", "stray.md"))).toBe(false);
+      expect(await new PageCache(testCacheDir).getEntry("skills")).toBeNull();
+      expect(await pageCache.readPage("hooks")).not.toBeNull();
+    });
+  });
+});
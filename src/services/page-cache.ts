@@ -0,0 +1,249 @@
+import { mkdir, readdir, readFile, rm, exists } from "node:fs/promises";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.ts";
+import { createHash } from "node:crypto";
+import { validatePageIndex } from "./cache-schema.ts";
+import { readJsonFile, type QuarantineHandler } from "./quarantine.ts";
+
+export interface PageCacheEntry {
+  slug: string;
+  url: string;
+  title?: string;
+  /** When the current content was downloaded. */
+  fetchedAt: Date;
+  /** When the content was last confirmed current (download or 304). */
+  checkedAt: Date;
+  /** sha256 of the page content. */
+  hash: string;
+  bytes: number;
+}
+
+export interface CachedPage extends PageCacheEntry {
+  content: string;
+}
+
+export interface PageInput {
+  slug: string;
+  url: string;
+  title?: string;
+  content: string;
+}
+
+/** A page whose file and index entry disagree. */
+export interface PageProblem {
+  slug: string;
+  problem: "missing file" | "hash mismatch" | "not in index";
+}
+
+interface PageIndexData {
+  [slug: string]: Omit<PageCacheEntry, "fetchedAt" | "checkedAt"> & {
+    fetchedAt: string;
+    checkedAt: string;
+  };
+}
+
+export interface PageCacheOptions {
+  /** Called when a corrupt index is quarantined. */
+  onQuarantine?: QuarantineHandler;
+}
+
+export const PAGES_DIR = "pages";
+export const PAGE_INDEX_FILE = "index.json";
+
+/**
+ * Stores fetched documentation pages one file per slug, with an index of
+ * per-page fetch times and content hashes.
+ */
+export class PageCache {
+  private index: Map<string, PageCacheEntry> | null = null;
+  private indexLoad: Promise<Map<string, PageCacheEntry>> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(
+    private cacheDir: string,
+    private options: PageCacheOptions = {}
+  ) {}
+
+  async writePage(page: PageInput, fetchedAt: Date = new Date()): Promise<PageCacheEntry> {
+    const index = await this.loadIndex();
+    const pagesDir = join(this.cacheDir, PAGES_DIR);
+    await mkdir(pagesDir, { recursive: true });
+    await writeFileAtomic(join(pagesDir, `${page.slug}.md`), page.content);
+
+    const entry: PageCacheEntry = {
+      slug: page.slug,
+      url: page.url,
+      title: page.title,
+      fetchedAt,
+      checkedAt: fetchedAt,
+      hash: this.hashContent(page.content),
+      bytes: Buffer.byteLength(page.content),
+    };
+
+    index.set(page.slug, entry);
+    await this.saveIndex();
+    return entry;
+  }
+
+  async readPage(slug: string): Promise<CachedPage | null> {
+    const entry = await this.getEntry(slug);
+    const pagePath = join(this.cacheDir, PAGES_DIR, `${slug}.md`);
+
+    if (!entry || !(await exists(pagePath))) {
+      return null;
+    }
+
+    return {
+      ...entry,
+      content: await readFile(pagePath, "utf-8"),
+    };
+  }
+
+  async getEntry(slug: string): Promise<PageCacheEntry | null> {
+    const index = await this.loadIndex();
+    return index.get(slug) ?? null;
+  }
+
+  async listEntries(): Promise<PageCacheEntry[]> {
+    const index = await this.loadIndex();
+    return Array.from(index.values()).sort((a, b) => a.slug.localeCompare(b.slug));
+  }
+
+  /**
+   * Records that a cached page was confirmed unchanged (e.g. by a 304).
+   */
+  async touchPage(slug: string, checkedAt: Date = new Date()): Promise<void> {
+    const index = await this.loadIndex();
+    const entry = index.get(slug);
+
+    if (!entry) {
+      return;
+    }
+
+    index.set(slug, { ...entry, checkedAt });
+    await this.saveIndex();
+  }
+
+  async deletePage(slug: string): Promise<boolean> {
+    const index = await this.loadIndex();
+
+    if (!index.delete(slug)) {
+      return false;
+    }
+
+    await rm(join(this.cacheDir, PAGES_DIR, `${slug}.md`), { force: true });
+    await this.saveIndex();
+    return true;
+  }
+
+  /**
+   * Checks every page file against the index: files must exist, match their
+   * recorded hash and have an index entry.
+   */
+  async verify(): Promise<PageProblem[]> {
+    const index = await this.loadIndex();
+    const files = new Set(await this.listPageFiles());
+    const problems: PageProblem[] = [];
+
+    for (const entry of await this.listEntries()) {
+      if (!files.has(entry.slug)) {
+        problems.push({ slug: entry.slug, problem: "missing file" });
+        continue;
+      }
+
+      const content = await readFile(join(this.cacheDir, PAGES_DIR, `${entry.slug}.md`), "utf-8");
+      if (this.hashContent(content) !== entry.hash) {
+        problems.push({ slug: entry.slug, problem: "hash mismatch" });
+      }
+    }
+
+    for (const slug of files) {
+      if (!index.has(slug)) {
+        problems.push({ slug, problem: "not in index" });
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Deletes page files with no index entry and index entries whose file is
+   * gone. Returns the slugs removed.
+   */
+  async removeOrphans(): Promise<string[]> {
+    const index = await this.loadIndex();
+    const files = await this.listPageFiles();
+    const removed: string[] = [];
+
+    for (const slug of files.filter((file) => !index.has(file))) {
+      await rm(join(this.cacheDir, PAGES_DIR, `${slug}.md`), { force: true });
+      removed.push(slug);
+    }
+
+    const missing = [...index.keys()].filter((slug) => !files.includes(slug));
+    for (const slug of missing) {
+      index.delete(slug);
+      removed.push(slug);
+    }
+    if (missing.length > 0) {
+      await this.saveIndex();
+    }
+
+    return removed.sort();
+  }
+
+  hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  /** Slugs of the page files on disk. */
+  private async listPageFiles(): Promise<string[]> {
+    const pagesDir = join(this.cacheDir, PAGES_DIR);
+    if (!(await exists(pagesDir))) {
+      return [];
+    }
+
+    const names = await readdir(pagesDir);
+    return names.filter((name) => name.endsWith(".md")).map((name) => name.slice(0, -3));
+  }
+
+  private loadIndex(): Promise<Map<string, PageCacheEntry>> {
+    // Share one load between concurrent callers
+    this.indexLoad ??= this.readIndexFile().then((index) => (this.index = index));
+    return this.indexLoad;
+  }
+
+  private async readIndexFile(): Promise<Map<string, PageCacheEntry>> {
+    const indexPath = join(this.cacheDir, PAGES_DIR, PAGE_INDEX_FILE);
+    const index = new Map<string, PageCacheEntry>();
+
+    // A missing or quarantined index reads as empty, so every page is refetched
+    const data = await readJsonFile<PageIndexData>(
+      indexPath,
+      validatePageIndex,
+      this.options.onQuarantine
+    );
+    for (const [slug, entry] of Object.entries(data ?? {})) {
+      index.set(slug, {
+        ...entry,
+        fetchedAt: new Date(entry.fetchedAt),
+        checkedAt: new Date(entry.checkedAt),
+      });
+    }
+
+    return index;
+  }
+
+  private async saveIndex(): Promise<void> {
+    // Serialize saves so concurrent page writes never interleave on disk
+    this.pendingSave = this.pendingSave.catch(() => {}).then(async () => {
+      const pagesDir = join(this.cacheDir, PAGES_DIR);
+      await mkdir(pagesDir, { recursive: true });
+
+      const data = Object.fromEntries(this.index ?? new Map());
+      await writeFileAtomic(join(pagesDir, PAGE_INDEX_FILE), JSON.stringify(data, null, 2));
+    });
+
+    await this.pendingSave;
+  }
+}
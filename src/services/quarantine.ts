@@ -0,0 +1,76 @@
+import { readFile, rename, exists } from "node:fs/promises";
+import { CacheValidationError, type SchemaIssue } from "./cache-schema.ts";
+
+/** A cache file that failed to parse or validate and was renamed aside. */
+export interface QuarantineReport {
+  cachePath: string;
+  quarantinedPath: string;
+  error: CacheValidationError;
+}
+
+export type QuarantineHandler = (report: QuarantineReport) => void;
+
+/**
+ * Renames a corrupt cache file aside, e.g. `docs.json.corrupt-<time>`,
+ * so the next update rewrites it while keeping the original for inspection.
+ */
+export async function quarantineFile(
+  cachePath: string,
+  error: CacheValidationError,
+  onQuarantine?: QuarantineHandler
+): Promise<QuarantineReport> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const quarantinedPath = `${cachePath}.corrupt-${stamp}`;
+  await rename(cachePath, quarantinedPath);
+
+  const report = { cachePath, quarantinedPath, error };
+  onQuarantine?.(report);
+  return report;
+}
+
+/**
+ * Parses a JSON cache file and checks it with `validate`. Throws
+ * CacheValidationError when it does not parse or validate.
+ */
+export async function loadJsonFile<T>(
+  cachePath: string,
+  validate: (data: unknown) => SchemaIssue[]
+): Promise<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(cachePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CacheValidationError(cachePath, [{ path: "$", message }]);
+  }
+
+  const issues = validate(data);
+  if (issues.length > 0) {
+    throw new CacheValidationError(cachePath, issues);
+  }
+  return data as T;
+}
+
+/**
+ * Reads a JSON cache file with no version of its own. A missing file reads
+ * as null, and so does a corrupt one after it is quarantined.
+ */
+export async function readJsonFile<T>(
+  cachePath: string,
+  validate: (data: unknown) => SchemaIssue[],
+  onQuarantine?: QuarantineHandler
+): Promise<T | null> {
+  if (!(await exists(cachePath))) {
+    return null;
+  }
+
+  try {
+    return await loadJsonFile<T>(cachePath, validate);
+  } catch (error) {
+    if (!(error instanceof CacheValidationError)) {
+      throw error;
+    }
+    await quarantineFile(cachePath, error, onQuarantine);
+    return null;
+  }
+}
@@ -1,5 +1,11 @@
 import { ReferenceManager, type ReferenceFile } from "../reference-manager.ts";
 import { ContentExtractor } from "../content-extractor.ts";
+import { MdxNormalizer } from "../mdx-normalizer.ts";
+import { DocsParser, slugFromUrl, type DocPage } from "../docs-parser.ts";
+import type { HttpValidatorStore } from "../http-validator-store.ts";
+import type { PageCache } from "../page-cache.ts";
+import { RetryPolicy } from "../retry-policy.ts";
+import { FetchTransport, type HttpTransport } from "../http-transport.ts";
 
 const DOCS_BASE_URL = "https://code.claude.com/docs/en";
 
@@ -8,29 +14,169 @@ export interface GeneratorConfig {
   sourceUrls: string[];
 }
 
+export interface GeneratorOptions {
+  /** Enables conditional requests and change detection when provided. */
+  validatorStore?: HttpValidatorStore;
+  retryPolicy?: RetryPolicy;
+  transport?: HttpTransport;
+  /** Keeps the raw content of every fetched page for offline regeneration. */
+  pageCache?: PageCache;
+}
+
+/**
+ * Adds a `> Source:` line under the reference's first heading citing the
+ * page it was generated from.
+ */
+function citeSource(content: string, page: DocPage | undefined): string {
+  if (!page) {
+    return content;
+  }
+
+  const link = `[${page.title}](${page.canonicalUrl})`;
+  const citation = `> Source: ${page.description ? `${link} - ${page.description}` : link}`;
+  const lines = content.split("\n");
+  const headingIndex = lines.findIndex((line) => /^#\s/.test(line));
+
+  lines.splice(headingIndex + 1, 0, ...(headingIndex === -1 ? [citation, ""] : ["", citation]));
+  return lines.join("\n");
+}
+
 export abstract class BaseReferenceGenerator {
   protected extractor: ContentExtractor;
+  protected normalizer: MdxNormalizer;
+  protected parser: DocsParser;
+  /** Pages fetched so far, keyed by source URL as listed in the config. */
+  protected pages = new Map<string, DocPage>();
+  protected retryPolicy: RetryPolicy;
+  protected transport: HttpTransport;
+  /** Changed pages answered by hasSourceChanges(), reused so they are fetched once. */
+  private probedResponses = new Map<string, Response>();
+  /** Successful responses whose validators wait for commitValidators(). */
+  private pendingValidators = new Map<string, Response>();
 
   constructor(
     protected refManager: ReferenceManager,
-    protected config: GeneratorConfig
+    protected config: GeneratorConfig,
+    protected options: GeneratorOptions = {}
   ) {
     this.extractor = new ContentExtractor();
+    this.normalizer = new MdxNormalizer();
+    this.parser = new DocsParser();
+    this.retryPolicy = options.retryPolicy ?? new RetryPolicy();
+    this.transport = options.transport ?? new FetchTransport();
   }
 
+  /**
+   * Fetches a documentation page body without frontmatter, with its MDX
+   * components rewritten as markdown.
+   */
   async fetchDocumentation(url: string): Promise<string> {
-    const fullUrl = url.startsWith("http") ? url : `${DOCS_BASE_URL}/${url}`;
-    const response = await fetch(fullUrl, {
-      headers: {
-        "User-Agent": "phoenixlab-plugin-dev/0.1.0",
-      },
-    });
+    return (await this.fetchPage(url)).body;
+  }
+
+  async fetchPage(url: string): Promise<DocPage> {
+    const fullUrl = this.resolveUrl(url);
+    const probed = this.probedResponses.get(fullUrl);
+    this.probedResponses.delete(fullUrl);
+
+    const response =
+      probed ??
+      (await this.retryPolicy.execute(fullUrl, () =>
+        this.transport.fetch(fullUrl, {
+          headers: {
+            "User-Agent": "phoenixlab-plugin-dev/0.1.0",
+          },
+        })
+      ));
 
     if (!response.ok) {
       throw new Error(`Failed to fetch documentation from ${fullUrl}: ${response.status}`);
     }
 
-    return response.text();
+    const content = await response.text();
+    await this.options.pageCache?.writePage({ slug: slugFromUrl(fullUrl), url: fullUrl, content });
+    if (this.options.validatorStore) {
+      this.pendingValidators.set(fullUrl, response);
+    }
+
+    return this.preparePage(url, content);
+  }
+
+  /**
+   * Records the validators of the pages fetched so far. Call this only once
+   * the references are written, so a failed generation is refetched in full
+   * instead of getting a 304.
+   */
+  async commitValidators(): Promise<void> {
+    for (const [url, response] of this.pendingValidators) {
+      await this.options.validatorStore?.record(url, response);
+    }
+    this.pendingValidators.clear();
+  }
+
+  /**
+   * Reads a source page from the page cache instead of the network. Throws
+   * when the page has not been fetched yet.
+   */
+  async readCachedPage(url: string): Promise<DocPage> {
+    if (!this.options.pageCache) {
+      throw new Error("Reading cached pages requires a page cache");
+    }
+
+    const fullUrl = this.resolveUrl(url);
+    const cached = await this.options.pageCache.readPage(slugFromUrl(fullUrl));
+    if (!cached) {
+      throw new Error(`Page not cached: ${fullUrl}; regenerate online first`);
+    }
+
+    return this.preparePage(url, cached.content);
+  }
+
+  /**
+   * Sends conditional requests for every source URL.
+   * Returns false only when all sources answer 304 Not Modified; a changed
+   * page's response is kept for the next fetchPage() of that URL.
+   */
+  async hasSourceChanges(): Promise<boolean> {
+    const store = this.options.validatorStore;
+    if (!store) {
+      return true;
+    }
+
+    for (const url of this.config.sourceUrls) {
+      const fullUrl = this.resolveUrl(url);
+      const conditionalHeaders = await store.getConditionalHeaders(fullUrl);
+
+      if (Object.keys(conditionalHeaders).length === 0) {
+        return true;
+      }
+
+      const response = await this.retryPolicy.execute(fullUrl, () =>
+        this.transport.fetch(fullUrl, {
+          headers: {
+            "User-Agent": "phoenixlab-plugin-dev/0.1.0",
+            ...conditionalHeaders,
+          },
+        })
+      );
+
+      if (response.ok) {
+        this.probedResponses.set(fullUrl, response);
+        return true;
+      }
+
+      await response.body?.cancel();
+      if (response.status !== 304) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /** Pages fetched by this generator, for building entity catalogs. */
+  getPages(): DocPage[] {
+    return [...this.pages.values()];
   }
 
   async fetchAllSources(): Promise<Map<string, string>> {
@@ -44,20 +190,52 @@ export abstract class BaseReferenceGenerator {
     return contents;
   }
 
+  /**
+   * Regenerates from cached pages without any network access. Every page is
+   * read before `beforeWrite` runs, so a missing page leaves nothing changed.
+   */
+  async generateFromCache(beforeWrite?: () => Promise<void>): Promise<void> {
+    const contents = new Map<string, string>();
+
+    for (const url of this.config.sourceUrls) {
+      contents.set(url, (await this.readCachedPage(url)).body);
+    }
+
+    await beforeWrite?.();
+    await this.generateFromContent(contents);
+  }
+
+  /**
+   * Writes a reference, citing `sourceUrl`'s page when it has been fetched.
+   */
   protected async writeReference(
     path: string,
     topic: string,
-    content: string
+    content: string,
+    sourceUrl?: string
   ): Promise<void> {
     const ref: ReferenceFile = {
       path: `${this.config.category}/${path}`,
       topic,
-      content,
+      content: citeSource(content, sourceUrl ? this.pages.get(sourceUrl) : undefined),
       lastUpdated: new Date(),
     };
     await this.refManager.writeReference(ref);
   }
 
+  /** Parses and normalises a page's raw markdown and remembers it for citations. */
+  private preparePage(url: string, content: string): DocPage {
+    const page = this.parser.parsePage(content, this.resolveUrl(url));
+    const normalized = { ...page, body: this.normalizer.normalize(page.body) };
+
+    this.pages.set(url, normalized);
+    return normalized;
+  }
+
+  protected resolveUrl(url: string): string {
+    return url.startsWith("http") ? url : `${DOCS_BASE_URL}/${url}`;
+  }
+
   protected formatTable(
     headers: string[],
     rows: string[][]
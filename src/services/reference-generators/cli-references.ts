@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class CLIReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "cli",
-      sourceUrls: ["cli-reference.md", "headless.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "cli",
+        sourceUrls: ["cli-reference.md", "headless.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -21,19 +25,22 @@ export class CLIReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "commands-reference.md",
       "CLI Commands Reference",
-      this.generateCommandsReference(cliMd)
+      this.generateCommandsReference(cliMd),
+      "cli-reference.md"
     );
 
     await this.writeReference(
       "input-modes.md",
       "Input Modes",
-      this.generateInputModes(cliMd, headlessMd)
+      this.generateInputModes(cliMd, headlessMd),
+      "cli-reference.md"
     );
 
     await this.writeReference(
       "environment-variables.md",
       "Environment Variables",
-      this.generateEnvironmentVariables(cliMd)
+      this.generateEnvironmentVariables(cliMd),
+      "cli-reference.md"
     );
   }
 
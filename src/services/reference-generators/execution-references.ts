@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class ExecutionReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "execution",
-      sourceUrls: ["sandboxing.md", "permissions.md", "devcontainer.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "execution",
+        sourceUrls: ["sandboxing.md", "permissions.md", "devcontainer.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -21,13 +25,15 @@ export class ExecutionReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "sandboxing.md",
       "Sandboxing",
-      this.generateSandboxing(sandboxingMd)
+      this.generateSandboxing(sandboxingMd),
+      "sandboxing.md"
     );
 
     await this.writeReference(
       "permissions.md",
       "Permissions",
-      this.generatePermissions(permissionsMd)
+      this.generatePermissions(permissionsMd),
+      "permissions.md"
     );
   }
 
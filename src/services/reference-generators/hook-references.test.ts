@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import { HookReferenceGenerator } from "./hook-references.ts";
 import { ReferenceManager } from "../reference-manager.ts";
+import type { HttpTransport } from "../http-transport.ts";
 import { mkdir, rm, readFile, exists } from "node:fs/promises";
 import { join } from "node:path";
 
@@ -117,6 +118,20 @@ Runs immediately after a tool completes successfully.
 
       await expect(generator.fetchHooksDocumentation()).rejects.toThrow();
     });
+
+    it("should rewrite MDX components as markdown", async () => {
+      const mdx = "## Exit codes\n\n<Tabs>\n  <Tab title=\"Bash\">\n    | Code | Meaning |\n" +
+        "    | --- | --- |\n    | 2 | Block |\n  </Tab>\n</Tabs>\n";
+      const transport: HttpTransport = {
+        fetch: mock(() => Promise.resolve(new Response(mdx, { status: 200 }))),
+      };
+      generator = new HookReferenceGenerator(refManager, { transport });
+
+      const content = await generator.fetchHooksDocumentation();
+
+      expect(content).toContain("### Bash\n\n| Code | Meaning |");
+      expect(content).not.toContain("<Tab");
+    });
   });
 
   describe("generateEventsOverview", () => {
@@ -249,7 +264,7 @@ Runs immediately after a tool completes successfully.
 
   describe("generateFromContent", () => {
     it("should generate from provided content without fetching", async () => {
-      await generator.generateFromContent(MOCK_HOOKS_MD);
+      await generator.generateFromContent(new Map([["hooks.md", MOCK_HOOKS_MD]]));
 
       const files = await refManager.listReferences();
       expect(files.length).toBeGreaterThan(0);
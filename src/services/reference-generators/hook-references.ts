@@ -1,76 +1,42 @@
-import { ReferenceManager, type ReferenceFile } from "../reference-manager.ts";
-import { ContentExtractor } from "../content-extractor.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
+import { ReferenceManager } from "../reference-manager.ts";
 
-const HOOKS_DOC_URL = "https://code.claude.com/docs/en/hooks.md";
+const HOOKS_SOURCE = "hooks.md";
 
-export class HookReferenceGenerator {
-  private extractor: ContentExtractor;
-
-  constructor(private refManager: ReferenceManager) {
-    this.extractor = new ContentExtractor();
+export class HookReferenceGenerator extends BaseReferenceGenerator {
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "hooks",
+        sourceUrls: [HOOKS_SOURCE],
+      },
+      options
+    );
   }
 
   async fetchHooksDocumentation(): Promise<string> {
-    const response = await fetch(HOOKS_DOC_URL, {
-      headers: {
-        "User-Agent": "phoenixlab-plugin-dev/0.1.0",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch hooks documentation: ${response.status}`);
-    }
-
-    return response.text();
+    return this.fetchDocumentation(HOOKS_SOURCE);
   }
 
   async generate(): Promise<void> {
-    const content = await this.fetchHooksDocumentation();
-    await this.generateFromContent(content);
+    const contents = await this.fetchAllSources();
+    await this.generateFromContent(contents);
   }
 
-  async generateFromContent(content: string): Promise<void> {
-    const refs: ReferenceFile[] = [
-      {
-        path: "hooks/events-overview.md",
-        topic: "Hook Events",
-        content: this.generateEventsOverview(content),
-        lastUpdated: new Date(),
-      },
-      {
-        path: "hooks/matcher-patterns.md",
-        topic: "Matcher Patterns",
-        content: this.generateMatcherPatterns(content),
-        lastUpdated: new Date(),
-      },
-      {
-        path: "hooks/handler-types.md",
-        topic: "Handler Types",
-        content: this.generateHandlerTypes(content),
-        lastUpdated: new Date(),
-      },
-      {
-        path: "hooks/exit-codes.md",
-        topic: "Exit Codes",
-        content: this.generateExitCodes(content),
-        lastUpdated: new Date(),
-      },
-      {
-        path: "hooks/input-output-schemas.md",
-        topic: "Input/Output Schemas",
-        content: this.generateInputOutputSchemas(content),
-        lastUpdated: new Date(),
-      },
-      {
-        path: "hooks/troubleshooting.md",
-        topic: "Troubleshooting",
-        content: this.generateTroubleshooting(content),
-        lastUpdated: new Date(),
-      },
+  async generateFromContent(contents: Map<string, string>): Promise<void> {
+    const hooksMd = contents.get(HOOKS_SOURCE) || "";
+    const refs: [path: string, topic: string, content: string][] = [
+      ["events-overview.md", "Hook Events", this.generateEventsOverview(hooksMd)],
+      ["matcher-patterns.md", "Matcher Patterns", this.generateMatcherPatterns(hooksMd)],
+      ["handler-types.md", "Handler Types", this.generateHandlerTypes(hooksMd)],
+      ["exit-codes.md", "Exit Codes", this.generateExitCodes(hooksMd)],
+      ["input-output-schemas.md", "Input/Output Schemas", this.generateInputOutputSchemas(hooksMd)],
+      ["troubleshooting.md", "Troubleshooting", this.generateTroubleshooting(hooksMd)],
     ];
 
-    for (const ref of refs) {
-      await this.refManager.writeReference(ref);
+    for (const [path, topic, content] of refs) {
+      await this.writeReference(path, topic, content, HOOKS_SOURCE);
     }
   }
 
@@ -1,10 +1,13 @@
-import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
 import {
   ReferenceGeneratorOrchestrator,
   ALL_CATEGORIES,
   type GeneratorCategory,
 } from "./index.ts";
 import { ReferenceManager } from "../reference-manager.ts";
+import { HttpValidatorStore } from "../http-validator-store.ts";
+import { PageCache } from "../page-cache.ts";
+import { RecordingTransport, ReplayTransport, type HttpTransport } from "../http-transport.ts";
 import { mkdir, rm, exists } from "node:fs/promises";
 import { join } from "node:path";
 
@@ -12,7 +15,9 @@ describe("ReferenceGeneratorOrchestrator", () => {
   const testReferencesDir = "/tmp/phoenixlab-orchestrator-test";
   let orchestrator: ReferenceGeneratorOrchestrator;
   let refManager: ReferenceManager;
-  const originalFetch = globalThis.fetch;
+  /** Answers the requests of orchestrators built on stubTransport. */
+  let transportFetch: (url: string, init?: RequestInit) => Promise<Response>;
+  const stubTransport: HttpTransport = { fetch: (url, init) => transportFetch(url, init) };
 
   // Mock documentation response
   const MOCK_DOC_CONTENT = `# Mock Documentation
@@ -29,17 +34,16 @@ Some content here.
     await rm(testReferencesDir, { recursive: true, force: true });
     await mkdir(testReferencesDir, { recursive: true });
     refManager = new ReferenceManager(testReferencesDir);
-    orchestrator = new ReferenceGeneratorOrchestrator(refManager);
+    orchestrator = new ReferenceGeneratorOrchestrator(refManager, { transport: stubTransport });
 
-    // Mock all fetch calls
-    globalThis.fetch = mock(() =>
+    // Every page answers with the mock documentation
+    transportFetch = mock(() =>
       Promise.resolve(new Response(MOCK_DOC_CONTENT, { status: 200 }))
     );
   });
 
   afterEach(async () => {
     await rm(testReferencesDir, { recursive: true, force: true });
-    globalThis.fetch = originalFetch;
   });
 
   describe("getGenerator", () => {
@@ -67,7 +71,7 @@ Some content here.
     });
 
     it("should return error result on failure", async () => {
-      globalThis.fetch = mock(() =>
+      transportFetch = mock(() =>
         Promise.resolve(new Response("Not Found", { status: 404 }))
       );
 
@@ -97,6 +101,263 @@ Some content here.
     });
   });
 
+  describe("conditional regeneration", () => {
+    const testCacheDir = "/tmp/phoenixlab-orchestrator-validators-test";
+    let store: HttpValidatorStore;
+
+    beforeEach(async () => {
+      await rm(testCacheDir, { recursive: true, force: true });
+      store = new HttpValidatorStore(testCacheDir);
+      orchestrator = new ReferenceGeneratorOrchestrator(refManager, {
+        validatorStore: store,
+        transport: stubTransport,
+      });
+    });
+
+    afterEach(async () => {
+      await rm(testCacheDir, { recursive: true, force: true });
+    });
+
+    it("should keep existing files when all sources return 304", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(
+          new Response(MOCK_DOC_CONTENT, { status: 200, headers: { ETag: '"v1"' } })
+        )
+      );
+      await orchestrator.generateCategory("mcp");
+
+      transportFetch = mock(() => Promise.resolve(new Response(null, { status: 304 })));
+      const result = await orchestrator.generateCategory("mcp");
+
+      expect(result.success).toBe(true);
+      expect(result.unchanged).toBe(true);
+      expect(result.filesGenerated).toBeGreaterThan(0);
+    });
+
+    it("should regenerate when any source has changed", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(
+          new Response(MOCK_DOC_CONTENT, { status: 200, headers: { ETag: '"v1"' } })
+        )
+      );
+      await orchestrator.generateCategory("hooks");
+
+      const result = await orchestrator.generateCategory("hooks");
+
+      expect(result.success).toBe(true);
+      expect(result.unchanged).toBeUndefined();
+    });
+
+    it("should regenerate when no validators are stored", async () => {
+      transportFetch = mock(() =>
+        Promise.resolve(new Response(MOCK_DOC_CONTENT, { status: 200 }))
+      );
+
+      const result = await orchestrator.generateCategory("mcp");
+
+      expect(result.unchanged).toBeUndefined();
+      expect(result.filesGenerated).toBeGreaterThan(0);
+    });
+
+    it("should not keep validators when writing the references fails", async () => {
+      transportFetch = mock((_url: string, init?: RequestInit) => {
+        const headers = init?.headers as Record<string, string>;
+        return Promise.resolve(
+          headers["If-None-Match"] === '"v1"'
+            ? new Response(null, { status: 304 })
+            : new Response(MOCK_DOC_CONTENT, { status: 200, headers: { ETag: '"v1"' } })
+        );
+      });
+      // The first reference is written before the second fails
+      const writeReference = refManager.writeReference.bind(refManager);
+      let writes = 0;
+      const write = spyOn(refManager, "writeReference").mockImplementation((ref) =>
+        ++writes === 2 ? Promise.reject(new Error("disk full")) : writeReference(ref)
+      );
+
+      const failed = await orchestrator.generateCategory("mcp");
+      write.mockRestore();
+      const retried = await orchestrator.generateCategory("mcp");
+
+      expect(failed.success).toBe(false);
+      expect(retried.success).toBe(true);
+      expect(retried.unchanged).toBeUndefined();
+      expect((await store.get("https://code.claude.com/docs/en/mcp.md"))?.etag).toBe('"v1"');
+    });
+
+    it("should fetch a changed page only once", async () => {
+      const transport: HttpTransport = {
+        fetch: mock(() =>
+          Promise.resolve(
+            new Response(MOCK_DOC_CONTENT, { status: 200, headers: { ETag: '"v2"' } })
+          )
+        ),
+      };
+      await store.record(
+        "https://code.claude.com/docs/en/hooks.md",
+        new Response("", { headers: { ETag: '"v1"' } })
+      );
+      await store.record(
+        "https://code.claude.com/docs/en/mcp.md",
+        new Response("", { headers: { ETag: '"v1"' } })
+      );
+      orchestrator = new ReferenceGeneratorOrchestrator(refManager, {
+        validatorStore: store,
+        transport,
+      });
+
+      await orchestrator.generateCategory("hooks");
+      await orchestrator.generateCategory("mcp");
+
+      expect(transport.fetch).toHaveBeenCalledTimes(2);
+      expect((await store.get("https://code.claude.com/docs/en/mcp.md"))?.etag).toBe('"v2"');
+    });
+  });
+
+  describe("injected transport", () => {
+    const testFixturesDir = "/tmp/phoenixlab-orchestrator-fixtures-test";
+
+    beforeEach(async () => {
+      await rm(testFixturesDir, { recursive: true, force: true });
+    });
+
+    afterEach(async () => {
+      await rm(testFixturesDir, { recursive: true, force: true });
+    });
+
+    it("should fetch through the injected transport instead of global fetch", async () => {
+      const transport: HttpTransport = {
+        fetch: mock(() => Promise.resolve(new Response(MOCK_DOC_CONTENT, { status: 200 }))),
+      };
+      const globalFetch = spyOn(globalThis, "fetch");
+      orchestrator = new ReferenceGeneratorOrchestrator(refManager, { transport });
+
+      const result = await orchestrator.generateCategory("skills");
+
+      expect(result.success).toBe(true);
+      expect(transport.fetch).toHaveBeenCalledWith(
+        "https://code.claude.com/docs/en/skills.md",
+        expect.any(Object)
+      );
+      expect(globalFetch).not.toHaveBeenCalled();
+      globalFetch.mockRestore();
+    });
+
+    it("should regenerate offline from recorded fixtures", async () => {
+      const recorder = new ReferenceGeneratorOrchestrator(refManager, {
+        transport: new RecordingTransport(testFixturesDir, stubTransport),
+      });
+      await recorder.generateAll();
+
+      transportFetch = mock(() => Promise.reject(new Error("offline")));
+      const replayer = new ReferenceGeneratorOrchestrator(refManager, {
+        transport: new ReplayTransport(testFixturesDir),
+      });
+      const results = await replayer.generateAll();
+
+      for (const result of results) {
+        expect(result.success).toBe(true);
+      }
+      expect(transportFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("from cache", () => {
+    const testPagesDir = "/tmp/phoenixlab-orchestrator-pages-test";
+    let transport: HttpTransport;
+
+    beforeEach(async () => {
+      await rm(testPagesDir, { recursive: true, force: true });
+      transport = {
+        fetch: mock(() => Promise.resolve(new Response(MOCK_DOC_CONTENT, { status: 200 }))),
+      };
+    });
+
+    afterEach(async () => {
+      await rm(testPagesDir, { recursive: true, force: true });
+    });
+
+    it("should cache the raw content of fetched pages", async () => {
+      const pageCache = new PageCache(testPagesDir);
+      orchestrator = new ReferenceGeneratorOrchestrator(refManager, { pageCache, transport });
+
+      await orchestrator.generateMultiple(["hooks", "skills"]);
+
+      const cached = await pageCache.readPage("skills");
+      expect(cached!.url).toBe("https://code.claude.com/docs/en/skills.md");
+      expect(cached!.content).toBe(MOCK_DOC_CONTENT);
+      expect(cached!.hash).toBe(pageCache.hashContent(MOCK_DOC_CONTENT));
+      expect(await pageCache.readPage("hooks")).not.toBeNull();
+    });
+
+    it("should regenerate every category from cached pages without fetching", async () => {
+      await new ReferenceGeneratorOrchestrator(refManager, {
+        pageCache: new PageCache(testPagesDir),
+        transport,
+      }).generateAll();
+
+      const offlineTransport: HttpTransport = {
+        fetch: mock(() => Promise.reject(new Error("offline"))),
+      };
+      const offline = new ReferenceGeneratorOrchestrator(refManager, {
+        pageCache: new PageCache(testPagesDir),
+        transport: offlineTransport,
+        fromCache: true,
+      });
+      const results = await offline.generateAll();
+
+      for (const result of results) {
+        expect(result.success).toBe(true);
+        expect(result.unchanged).toBeUndefined();
+      }
+      expect(offlineTransport.fetch).not.toHaveBeenCalled();
+      expect(offline.fetchedPages().length).toBeGreaterThan(0);
+    });
+
+    it("should fail a category whose pages are not cached", async () => {
+      orchestrator = new ReferenceGeneratorOrchestrator(refManager, {
+        pageCache: new PageCache(testPagesDir),
+        fromCache: true,
+      });
+
+      const result = await orchestrator.generateCategory("skills");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "Page not cached: https://code.claude.com/docs/en/skills.md; regenerate online first"
+      );
+    });
+
+    it("should keep existing references when a cached page is missing", async () => {
+      await new ReferenceGeneratorOrchestrator(refManager, { transport }).generateCategory(
+        "skills"
+      );
+      const before = await refManager.listReferences();
+
+      const result = await new ReferenceGeneratorOrchestrator(refManager, {
+        pageCache: new PageCache(testPagesDir),
+        fromCache: true,
+      }).generateCategory("skills");
+
+      expect(result.success).toBe(false);
+      expect(before.some((file) => file.startsWith("skills/"))).toBe(true);
+      expect(await refManager.listReferences()).toEqual(before);
+    });
+  });
+
+  describe("fetchedPages", () => {
+    it("should collect the pages fetched by generated categories", async () => {
+      await orchestrator.generateMultiple(["hooks", "settings"]);
+
+      expect(orchestrator.fetchedPages().map((page) => page.url)).toEqual([
+        "https://code.claude.com/docs/en/hooks.md",
+        "https://code.claude.com/docs/en/settings.md",
+        "https://code.claude.com/docs/en/model-config.md",
+      ]);
+      expect(orchestrator.fetchedPages()[0]!.title).toBe("Mock Documentation");
+    });
+  });
+
   describe("generateAll", () => {
     it("should generate files for all categories", async () => {
       const results = await orchestrator.generateAll();
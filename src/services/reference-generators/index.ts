@@ -10,6 +10,8 @@ import { ExecutionReferenceGenerator } from "./execution-references.ts";
 import { SubagentReferenceGenerator } from "./subagent-references.ts";
 import { OutputReferenceGenerator } from "./output-references.ts";
 import { IntegrationReferenceGenerator } from "./integration-references.ts";
+import type { GeneratorOptions } from "./base-generator.ts";
+import type { DocPage } from "../docs-parser.ts";
 
 export type GeneratorCategory =
   | "hooks"
@@ -38,40 +40,52 @@ export const ALL_CATEGORIES: GeneratorCategory[] = [
   "integrations",
 ];
 
+export interface OrchestratorOptions extends GeneratorOptions {
+  /** Regenerate from the page cache only, without any network access. */
+  fromCache?: boolean;
+}
+
 export interface GeneratorResult {
   category: GeneratorCategory;
   success: boolean;
   filesGenerated?: number;
+  /** True when all sources were unchanged (304) and existing files were kept. */
+  unchanged?: boolean;
   error?: string;
 }
 
 export class ReferenceGeneratorOrchestrator {
-  constructor(private refManager: ReferenceManager) {}
+  private pages = new Map<string, DocPage>();
+
+  constructor(
+    private refManager: ReferenceManager,
+    private options: OrchestratorOptions = {}
+  ) {}
 
   getGenerator(category: GeneratorCategory) {
     switch (category) {
       case "hooks":
-        return new HookReferenceGenerator(this.refManager);
+        return new HookReferenceGenerator(this.refManager, this.options);
       case "plugins":
-        return new PluginReferenceGenerator(this.refManager);
+        return new PluginReferenceGenerator(this.refManager, this.options);
       case "skills":
-        return new SkillReferenceGenerator(this.refManager);
+        return new SkillReferenceGenerator(this.refManager, this.options);
       case "mcp":
-        return new MCPReferenceGenerator(this.refManager);
+        return new MCPReferenceGenerator(this.refManager, this.options);
       case "cli":
-        return new CLIReferenceGenerator(this.refManager);
+        return new CLIReferenceGenerator(this.refManager, this.options);
       case "memory":
-        return new MemoryReferenceGenerator(this.refManager);
+        return new MemoryReferenceGenerator(this.refManager, this.options);
       case "settings":
-        return new SettingsReferenceGenerator(this.refManager);
+        return new SettingsReferenceGenerator(this.refManager, this.options);
       case "execution":
-        return new ExecutionReferenceGenerator(this.refManager);
+        return new ExecutionReferenceGenerator(this.refManager, this.options);
       case "subagents":
-        return new SubagentReferenceGenerator(this.refManager);
+        return new SubagentReferenceGenerator(this.refManager, this.options);
       case "output":
-        return new OutputReferenceGenerator(this.refManager);
+        return new OutputReferenceGenerator(this.refManager, this.options);
       case "integrations":
-        return new IntegrationReferenceGenerator(this.refManager);
+        return new IntegrationReferenceGenerator(this.refManager, this.options);
       default:
         throw new Error(`Unknown generator category: ${category}`);
     }
@@ -79,21 +93,39 @@ export class ReferenceGeneratorOrchestrator {
 
   async generateCategory(category: GeneratorCategory): Promise<GeneratorResult> {
     try {
-      // Clear existing files for this category
-      await this.refManager.clearCategory(category);
-
-      // Generate new files
       const generator = this.getGenerator(category);
-      await generator.generate();
 
-      // Count generated files
-      const files = await this.refManager.listReferences();
-      const categoryFiles = files.filter((f) => f.startsWith(`${category}/`));
+      // Keep existing files when every source is unchanged
+      if (!this.options.fromCache && !(await generator.hasSourceChanges())) {
+        const existingFiles = await this.countCategoryFiles(category);
+        if (existingFiles > 0) {
+          return {
+            category,
+            success: true,
+            filesGenerated: existingFiles,
+            unchanged: true,
+          };
+        }
+      }
+
+      // Clear existing files for this category, and generate new files
+      const clear = () => this.refManager.clearCategory(category);
+      if (this.options.fromCache) {
+        // Only once every cached page has been read, so a missing page keeps the old files
+        await generator.generateFromCache(clear);
+      } else {
+        await clear();
+        await generator.generate();
+        await generator.commitValidators();
+      }
+      for (const page of generator.getPages()) {
+        this.pages.set(page.url, page);
+      }
 
       return {
         category,
         success: true,
-        filesGenerated: categoryFiles.length,
+        filesGenerated: await this.countCategoryFiles(category),
       };
     } catch (error) {
       return {
@@ -131,9 +163,23 @@ export class ReferenceGeneratorOrchestrator {
 
     return results;
   }
+
+  /**
+   * Pages fetched by the categories generated so far; unchanged categories
+   * are not fetched and so are not included.
+   */
+  fetchedPages(): DocPage[] {
+    return [...this.pages.values()];
+  }
+
+  private async countCategoryFiles(category: GeneratorCategory): Promise<number> {
+    const files = await this.refManager.listReferences();
+    return files.filter((f) => f.startsWith(`${category}/`)).length;
+  }
 }
 
 // Re-export all generators for direct use
+export type { GeneratorOptions } from "./base-generator.ts";
 export { HookReferenceGenerator } from "./hook-references.ts";
 export { PluginReferenceGenerator } from "./plugin-references.ts";
 export { SkillReferenceGenerator } from "./skill-references.ts";
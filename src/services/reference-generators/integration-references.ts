@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class IntegrationReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "integrations",
-      sourceUrls: ["chrome.md", "vs-code.md", "github-actions.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "integrations",
+        sourceUrls: ["chrome.md", "vs-code.md", "github-actions.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -22,19 +26,22 @@ export class IntegrationReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "chrome.md",
       "Chrome Integration",
-      this.generateChromeIntegration(chromeMd)
+      this.generateChromeIntegration(chromeMd),
+      "chrome.md"
     );
 
     await this.writeReference(
       "vs-code.md",
       "VS Code Integration",
-      this.generateVSCodeIntegration(vscodeMd)
+      this.generateVSCodeIntegration(vscodeMd),
+      "vs-code.md"
     );
 
     await this.writeReference(
       "github-actions.md",
       "GitHub Actions",
-      this.generateGitHubActions(githubMd)
+      this.generateGitHubActions(githubMd),
+      "github-actions.md"
     );
   }
 
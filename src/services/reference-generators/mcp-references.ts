@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class MCPReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "mcp",
-      sourceUrls: ["mcp.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "mcp",
+        sourceUrls: ["mcp.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -20,19 +24,22 @@ export class MCPReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "overview.md",
       "MCP Overview",
-      this.generateOverview(mcpMd)
+      this.generateOverview(mcpMd),
+      "mcp.md"
     );
 
     await this.writeReference(
       "server-configuration.md",
       "Server Configuration",
-      this.generateServerConfiguration(mcpMd)
+      this.generateServerConfiguration(mcpMd),
+      "mcp.md"
     );
 
     await this.writeReference(
       "tool-naming.md",
       "Tool Naming",
-      this.generateToolNaming(mcpMd)
+      this.generateToolNaming(mcpMd),
+      "mcp.md"
     );
   }
 
@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class MemoryReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "memory",
-      sourceUrls: ["memory.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "memory",
+        sourceUrls: ["memory.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -20,13 +24,15 @@ export class MemoryReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "memory-locations.md",
       "Memory Locations",
-      this.generateMemoryLocations(memoryMd)
+      this.generateMemoryLocations(memoryMd),
+      "memory.md"
     );
 
     await this.writeReference(
       "claude-md.md",
       "CLAUDE.md Format",
-      this.generateClaudeMdFormat(memoryMd)
+      this.generateClaudeMdFormat(memoryMd),
+      "memory.md"
     );
   }
 
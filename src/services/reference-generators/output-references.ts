@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class OutputReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "output",
-      sourceUrls: ["output-styles.md", "statusline.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "output",
+        sourceUrls: ["output-styles.md", "statusline.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -21,13 +25,15 @@ export class OutputReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "output-styles.md",
       "Output Styles",
-      this.generateOutputStyles(outputMd)
+      this.generateOutputStyles(outputMd),
+      "output-styles.md"
     );
 
     await this.writeReference(
       "statusline.md",
       "Status Line",
-      this.generateStatusLine(statuslineMd)
+      this.generateStatusLine(statuslineMd),
+      "statusline.md"
     );
   }
 
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import { PluginReferenceGenerator } from "./plugin-references.ts";
 import { ReferenceManager } from "../reference-manager.ts";
+import type { HttpTransport } from "../http-transport.ts";
 import { mkdir, rm, readFile } from "node:fs/promises";
 import { join } from "node:path";
 
@@ -172,6 +173,36 @@ Plugins can include these components:
       expect(files).toContain("plugins/installation-scopes.md");
       expect(files).toContain("plugins/cli-commands.md");
     });
+
+    it("should cite the source page title and description from its frontmatter", async () => {
+      const frontmatter =
+        "---\ntitle: Plugins reference\ndescription: Manifest and CLI details.\n---\n\n";
+      const transport: HttpTransport = {
+        fetch: mock((url: string) => {
+          const body = url.includes("plugins-reference")
+            ? frontmatter + MOCK_PLUGINS_REF_MD
+            : MOCK_PLUGINS_MD;
+          return Promise.resolve(new Response(body, { status: 200 }));
+        }),
+      };
+      generator = new PluginReferenceGenerator(refManager, { transport });
+
+      await generator.generate();
+
+      const read = (path: string) => readFile(join(testReferencesDir, path), "utf-8");
+      const cliCommands = await read("plugins/cli-commands.md");
+      expect(cliCommands).toContain(
+        "> Source: [Plugins reference](https://code.claude.com/docs/en/plugins-reference)" +
+          " - Manifest and CLI details."
+      );
+      expect(cliCommands).not.toContain("title: Plugins reference");
+
+      // Without frontmatter, the page's h1 is its title
+      const manifest = await read("plugins/manifest-schema.md");
+      expect(manifest).toContain(
+        "> Source: [Create plugins](https://code.claude.com/docs/en/plugins)"
+      );
+    });
   });
 
   describe("generateFromContent", () => {
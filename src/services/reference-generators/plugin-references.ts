@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class PluginReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "plugins",
-      sourceUrls: ["plugins.md", "plugins-reference.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "plugins",
+        sourceUrls: ["plugins.md", "plugins-reference.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -21,31 +25,36 @@ export class PluginReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "manifest-schema.md",
       "Plugin Manifest Schema",
-      this.generateManifestSchema(pluginsMd)
+      this.generateManifestSchema(pluginsMd),
+      "plugins.md"
     );
 
     await this.writeReference(
       "component-types.md",
       "Component Types",
-      this.generateComponentTypes(pluginsRefMd)
+      this.generateComponentTypes(pluginsRefMd),
+      "plugins-reference.md"
     );
 
     await this.writeReference(
       "directory-structure.md",
       "Directory Structure",
-      this.generateDirectoryStructure(pluginsMd)
+      this.generateDirectoryStructure(pluginsMd),
+      "plugins.md"
     );
 
     await this.writeReference(
       "installation-scopes.md",
       "Installation Scopes",
-      this.generateInstallationScopes(pluginsMd)
+      this.generateInstallationScopes(pluginsMd),
+      "plugins.md"
     );
 
     await this.writeReference(
       "cli-commands.md",
       "Plugin CLI Commands",
-      this.generateCliCommands(pluginsRefMd)
+      this.generateCliCommands(pluginsRefMd),
+      "plugins-reference.md"
     );
   }
 
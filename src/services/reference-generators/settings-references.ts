@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class SettingsReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "settings",
-      sourceUrls: ["settings.md", "model-config.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "settings",
+        sourceUrls: ["settings.md", "model-config.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -21,19 +25,22 @@ export class SettingsReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "settings-reference.md",
       "Settings Reference",
-      this.generateSettingsReference(settingsMd)
+      this.generateSettingsReference(settingsMd),
+      "settings.md"
     );
 
     await this.writeReference(
       "settings-locations.md",
       "Settings Locations",
-      this.generateSettingsLocations(settingsMd)
+      this.generateSettingsLocations(settingsMd),
+      "settings.md"
     );
 
     await this.writeReference(
       "model-configuration.md",
       "Model Configuration",
-      this.generateModelConfiguration(modelMd)
+      this.generateModelConfiguration(modelMd),
+      "model-config.md"
     );
   }
 
@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class SkillReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "skills",
-      sourceUrls: ["skills.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "skills",
+        sourceUrls: ["skills.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -20,31 +24,36 @@ export class SkillReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "frontmatter-reference.md",
       "Frontmatter Reference",
-      this.generateFrontmatterReference(skillsMd)
+      this.generateFrontmatterReference(skillsMd),
+      "skills.md"
     );
 
     await this.writeReference(
       "locations-priority.md",
       "Skill Locations",
-      this.generateLocationsPriority(skillsMd)
+      this.generateLocationsPriority(skillsMd),
+      "skills.md"
     );
 
     await this.writeReference(
       "invocation-control.md",
       "Invocation Control",
-      this.generateInvocationControl(skillsMd)
+      this.generateInvocationControl(skillsMd),
+      "skills.md"
     );
 
     await this.writeReference(
       "arguments-substitution.md",
       "Arguments & Substitution",
-      this.generateArgumentsSubstitution(skillsMd)
+      this.generateArgumentsSubstitution(skillsMd),
+      "skills.md"
     );
 
     await this.writeReference(
       "subagent-execution.md",
       "Subagent Execution",
-      this.generateSubagentExecution(skillsMd)
+      this.generateSubagentExecution(skillsMd),
+      "skills.md"
     );
   }
 
@@ -1,12 +1,16 @@
-import { BaseReferenceGenerator } from "./base-generator.ts";
+import { BaseReferenceGenerator, type GeneratorOptions } from "./base-generator.ts";
 import { ReferenceManager } from "../reference-manager.ts";
 
 export class SubagentReferenceGenerator extends BaseReferenceGenerator {
-  constructor(refManager: ReferenceManager) {
-    super(refManager, {
-      category: "subagents",
-      sourceUrls: ["sub-agents.md"],
-    });
+  constructor(refManager: ReferenceManager, options: GeneratorOptions = {}) {
+    super(
+      refManager,
+      {
+        category: "subagents",
+        sourceUrls: ["sub-agents.md"],
+      },
+      options
+    );
   }
 
   async generate(): Promise<void> {
@@ -20,13 +24,15 @@ export class SubagentReferenceGenerator extends BaseReferenceGenerator {
     await this.writeReference(
       "built-in-agents.md",
       "Built-in Agents",
-      this.generateBuiltInAgents(subagentsMd)
+      this.generateBuiltInAgents(subagentsMd),
+      "sub-agents.md"
     );
 
     await this.writeReference(
       "custom-agents.md",
       "Custom Agents",
-      this.generateCustomAgents(subagentsMd)
+      this.generateCustomAgents(subagentsMd),
+      "sub-agents.md"
     );
   }
 
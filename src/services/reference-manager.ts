@@ -1,6 +1,7 @@
-import { mkdir, readFile, writeFile, rm, exists } from "node:fs/promises";
+import { mkdir, readFile, rm, exists } from "node:fs/promises";
 import { join, dirname, basename, relative } from "node:path";
 import { Glob } from "bun";
+import { writeFileAtomic } from "./atomic-write.ts";
 
 export interface ReferenceFile {
   path: string;
@@ -17,7 +18,7 @@ export class ReferenceManager {
     const dir = dirname(filePath);
 
     await mkdir(dir, { recursive: true });
-    await writeFile(filePath, ref.content);
+    await writeFileAtomic(filePath, ref.content);
   }
 
   async readReference(path: string): Promise<ReferenceFile | null> {
@@ -94,7 +95,7 @@ export class ReferenceManager {
     }
 
     const indexPath = join(this.referencesDir, "index.md");
-    await writeFile(indexPath, lines.join("\n"));
+    await writeFileAtomic(indexPath, lines.join("\n"));
   }
 
   async deleteReference(path: string): Promise<boolean> {
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test";
+import { ReleaseNotesParser } from "./release-notes-parser.ts";
+
+describe("ReleaseNotesParser", () => {
+  const parser = new ReleaseNotesParser();
+
+  describe("parse", () => {
+    it("should categorise bullets by their heading", () => {
+      const changes = parser.parse(
+        "## What's New\n- Hook timeouts\n\n## Bug Fixes\n- MCP reconnects\n\n### Deprecated\n- `--old-flag`"
+      );
+
+      expect(changes).toEqual([
+        { type: "added", text: "Hook timeouts" },
+        { type: "fixed", text: "MCP reconnects" },
+        { type: "deprecated", text: "`--old-flag`" },
+      ]);
+    });
+
+    it("should treat bold and colon labels as headings", () => {
+      const changes = parser.parse("**Security**\n\n- Sandbox escape\n\nImprovements:\n- Faster startup");
+
+      expect(changes.map((c) => c.type)).toEqual(["security", "changed"]);
+    });
+
+    it("should fall back to keyword heuristics for plain bullets", () => {
+      const changes = parser.parse(
+        [
+          "- Added `/context` command",
+          "- Fixed crash on resize",
+          "- Removed legacy config loader",
+          "- Improved token counting",
+          "- Patched CVE-2025-1234 in the shell tool",
+          "- Deprecated `--print-json`",
+          "- Crash when the terminal has no colors is now a bug of the past",
+          "- Windows support polish",
+        ].join("\n")
+      );
+
+      expect(changes.map((c) => c.type)).toEqual([
+        "added",
+        "fixed",
+        "removed",
+        "changed",
+        "security",
+        "deprecated",
+        "fixed",
+        "changed",
+      ]);
+    });
+
+    it("should classify bullets by keyword under a generic What's changed heading", () => {
+      const changes = parser.parse(
+        [
+          "## What's changed",
+          "",
+          "- Added session resume hint on exit, showing how to continue your conversation later",
+          "- Fixed PDF too large errors permanently locking up sessions",
+          "- Improved startup time when many MCP servers are configured",
+          "- Claude in Chrome now works in more browsers",
+        ].join("\n")
+      );
+
+      expect(changes.map((c) => c.type)).toEqual(["added", "fixed", "changed", "changed"]);
+    });
+
+    it("should let keywords override a heading that only says changed", () => {
+      const changes = parser.parse("Improvements:\n- Fixed flicker\n- Faster startup");
+
+      expect(changes.map((c) => c.type)).toEqual(["fixed", "changed"]);
+    });
+
+    it("should let explicit breaking markers override the heading", () => {
+      const changes = parser.parse("### Changed\n- BREAKING: settings moved to `.claude/`");
+
+      expect(changes[0]!.type).toBe("breaking");
+    });
+
+    it("should give nested bullets their parent's category", () => {
+      const changes = parser.parse("- Fixed hooks\n  - Timeouts apply per hook\n  - Added retry");
+
+      expect(changes).toEqual([
+        { type: "fixed", text: "Fixed hooks" },
+        { type: "fixed", text: "Timeouts apply per hook", depth: 1 },
+        { type: "added", text: "Added retry", depth: 1 },
+      ]);
+    });
+
+    it("should ignore bullets inside code fences", () => {
+      expect(parser.parse("```md\n- Added nothing\n```")).toEqual([]);
+    });
+
+    it("should return no changes for an empty body", () => {
+      expect(parser.parse("")).toEqual([]);
+    });
+  });
+
+  describe("prose", () => {
+    it("should return paragraphs outside lists and section labels", () => {
+      const body = "Thanks to everyone.\n\n**Bug fixes:**\n\n- Fixed hooks\n\nSee the docs.";
+
+      expect(parser.prose(body)).toEqual(["Thanks to everyone.", "See the docs."]);
+    });
+  });
+});
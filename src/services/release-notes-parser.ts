@@ -0,0 +1,140 @@
+import { MarkdownParser, type ListNode, type ParagraphNode } from "./markdown-parser.ts";
+
+export type ReleaseChangeType =
+  | "added"
+  | "fixed"
+  | "changed"
+  | "deprecated"
+  | "removed"
+  | "security"
+  | "breaking";
+
+export interface ReleaseChange {
+  type: ReleaseChangeType;
+  text: string;
+  /** Nesting level of the bullet; unset for top-level bullets. */
+  depth?: number;
+}
+
+// A short bold or colon-terminated line used as a heading, e.g. `**Bug fixes**` or `Improvements:`
+const LABEL = /^(?:\*\*([^*\n]{1,40}?):?\*\*:?|([^*:\n]{1,40}):)$/;
+
+// Checked in order; the first match wins
+const TEXT_RULES: Array<[RegExp, ReleaseChangeType]> = [
+  [/^\W*breaking\b|\bbreaking changes?\b/i, "breaking"],
+  [/\bsecurity\b|\bCVE-\d{4}-\d+|\bvulnerab/i, "security"],
+  [/^\W*deprecat|\bdeprecated\b/i, "deprecated"],
+  [/^\W*(remove[ds]?|drop(ped|s)?)\b/i, "removed"],
+  [/^\W*(fix(ed|es)?|resolved?)\b/i, "fixed"],
+  [/^\W*(add(ed|s)?|new|introduc(e|ed|es)|support(ed)? for)\b/i, "added"],
+  [/^\W*(chang(e|ed|es)|improv(e|ed|es)|updat(e|ed|es)|renam(e|ed|es)|mov(e|ed|es))\b/i, "changed"],
+  [/^\W*(made|increase[ds]?|reduce[ds]?|bump(ed|s)?)\b/i, "changed"],
+  [/\bfix(ed|es)?\b|\bbugs?\b/i, "fixed"],
+];
+
+// Headings over a whole release body, e.g. `## What's changed`, that name no category
+const GENERIC_HEADING = /^(what['’]?s changed|changes|changelog|release notes)( in .*)?$/i;
+
+const HEADING_RULES: Array<[RegExp, ReleaseChangeType]> = [
+  [/breaking/i, "breaking"],
+  [/security/i, "security"],
+  [/deprecat/i, "deprecated"],
+  [/remov/i, "removed"],
+  [/fix|bug/i, "fixed"],
+  [/add|new|feature/i, "added"],
+  [/chang|improv|update|enhance|perf/i, "changed"],
+];
+
+/**
+ * Classifies release-note bullets into typed changes.
+ *
+ * A bullet takes the category of the heading (or `**Heading:**` line) it
+ * sits under; without one, keyword heuristics on the text decide, then the
+ * parent bullet's category, then "changed". Explicit breaking markers
+ * always win, and keywords also beat a heading that only says "changed".
+ * Generic headings such as "What's changed" name no category.
+ */
+export class ReleaseNotesParser {
+  private markdown = new MarkdownParser();
+
+  parse(body: string): ReleaseChange[] {
+    if (!body.trim()) {
+      return [];
+    }
+
+    const changes: ReleaseChange[] = [];
+    let section: ReleaseChangeType | null = null;
+
+    for (const node of this.markdown.parse(body)) {
+      if (node.type === "heading") {
+        section = this.classifyHeading(node.text);
+        continue;
+      }
+
+      if (node.type === "paragraph") {
+        const label = node.text.match(LABEL);
+        if (label) {
+          section = this.classifyHeading(label[1] ?? label[2]!);
+        }
+        continue;
+      }
+
+      if (node.type !== "list") {
+        continue;
+      }
+
+      const parents = new Map<ListNode, { type: ReleaseChangeType; depth: number }>();
+      for (const { item, list } of this.markdown.walkListItems([node])) {
+        const parent = parents.get(list);
+        const type = this.classify(item.text, section, parent?.type);
+        const depth = parent ? parent.depth + 1 : 0;
+
+        // Nested lists inherit from the item that contains them
+        for (const child of item.children) {
+          if (child.type === "list") {
+            parents.set(child, { type, depth });
+          }
+        }
+
+        if (item.text) {
+          changes.push(depth > 0 ? { type, text: item.text, depth } : { type, text: item.text });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /** Paragraphs of the body that are neither bullets nor section labels. */
+  prose(body: string): string[] {
+    return this.markdown
+      .parse(body)
+      .filter((node) => node.type === "paragraph" && !LABEL.test(node.text))
+      .map((node) => (node as ParagraphNode).text);
+  }
+
+  classify(
+    text: string,
+    section: ReleaseChangeType | null = null,
+    parent?: ReleaseChangeType
+  ): ReleaseChangeType {
+    const fromText = this.classifyText(text);
+
+    if (fromText === "breaking" || (section === "changed" && fromText)) {
+      return fromText;
+    }
+
+    return section ?? fromText ?? parent ?? "changed";
+  }
+
+  private classifyText(text: string): ReleaseChangeType | null {
+    return TEXT_RULES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+  }
+
+  private classifyHeading(text: string): ReleaseChangeType | null {
+    if (GENERIC_HEADING.test(text.trim())) {
+      return null;
+    }
+    return HEADING_RULES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+  }
+}
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { RetryPolicy, RateLimitError } from "./retry-policy.ts";
+import type { Server } from "bun";
+
+describe("RetryPolicy", () => {
+  let server: Server<undefined>;
+  let baseUrl: string;
+  let responses: Array<() => Response>;
+  let requestCount: number;
+  let sleeps: number[];
+  let policy: RetryPolicy;
+
+  beforeEach(() => {
+    responses = [];
+    requestCount = 0;
+    sleeps = [];
+
+    // Local stub server that replays the queued responses in order
+    server = Bun.serve({
+      port: 0,
+      fetch() {
+        const next = responses[Math.min(requestCount, responses.length - 1)];
+        requestCount++;
+        return next ? next() : new Response("ok");
+      },
+    });
+    baseUrl = `http://localhost:${server.port}/`;
+
+    policy = new RetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      random: () => 0.5,
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  describe("execute", () => {
+    it("should return a successful response without retrying", async () => {
+      responses = [() => new Response("ok")];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(200);
+      expect(requestCount).toBe(1);
+      expect(sleeps).toEqual([]);
+    });
+
+    it("should retry 5xx responses with exponential backoff", async () => {
+      responses = [
+        () => new Response("down", { status: 503 }),
+        () => new Response("down", { status: 500 }),
+        () => new Response("ok"),
+      ];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(200);
+      expect(requestCount).toBe(3);
+      expect(sleeps).toEqual([75, 150]);
+    });
+
+    it("should return the last response when attempts run out", async () => {
+      responses = [() => new Response("down", { status: 500 })];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(500);
+      expect(requestCount).toBe(3);
+    });
+
+    it("should not retry client errors", async () => {
+      responses = [() => new Response("missing", { status: 404 })];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(404);
+      expect(requestCount).toBe(1);
+    });
+
+    it("should honour Retry-After in seconds", async () => {
+      responses = [
+        () => new Response("busy", { status: 503, headers: { "Retry-After": "2" } }),
+        () => new Response("ok"),
+      ];
+
+      await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(sleeps).toEqual([2000]);
+    });
+
+    it("should give up when Retry-After exceeds the maximum wait", async () => {
+      const shortWait = new RetryPolicy({
+        maxWaitMs: 1000,
+        sleep: async (ms) => {
+          sleeps.push(ms);
+        },
+      });
+      responses = [
+        () => new Response("busy", { status: 503, headers: { "Retry-After": "120" } }),
+      ];
+
+      const response = await shortWait.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(503);
+      expect(requestCount).toBe(1);
+      expect(sleeps).toEqual([]);
+    });
+
+    it("should retry network errors and rethrow the last one", async () => {
+      let attempts = 0;
+      const failing = () => {
+        attempts++;
+        return Promise.reject(new Error("ECONNREFUSED"));
+      };
+
+      await expect(policy.execute(baseUrl, failing)).rejects.toThrow("ECONNREFUSED");
+      expect(attempts).toBe(3);
+    });
+
+    it("should stop retrying once the signal is aborted", async () => {
+      const controller = new AbortController();
+      let attempts = 0;
+      const failing = () => {
+        attempts++;
+        controller.abort();
+        return Promise.reject(new Error("aborted"));
+      };
+
+      await expect(policy.execute(baseUrl, failing, controller.signal)).rejects.toThrow("aborted");
+      expect(attempts).toBe(1);
+      expect(sleeps).toEqual([]);
+    });
+
+    it("should stop waiting between attempts once the signal is aborted", async () => {
+      const controller = new AbortController();
+      const waiting = new RetryPolicy({
+        sleep: () => {
+          controller.abort(new Error("timed out while waiting"));
+          return new Promise(() => {});
+        },
+      });
+      responses = [() => new Response("busy", { status: 429, headers: { "Retry-After": "30" } })];
+
+      await expect(
+        waiting.execute(baseUrl, () => fetch(baseUrl), controller.signal)
+      ).rejects.toThrow("timed out while waiting");
+      expect(requestCount).toBe(1);
+    });
+
+    it("should cut the default sleep short when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const defaultSleep = new RetryPolicy({ baseDelayMs: 60_000, maxDelayMs: 60_000 });
+      const startedAt = Date.now();
+      setTimeout(() => controller.abort(new Error("aborted")), 10);
+
+      await expect(
+        defaultSleep.execute(baseUrl, () => Promise.reject(new Error("down")), controller.signal)
+      ).rejects.toThrow("aborted");
+      expect(Date.now() - startedAt).toBeLessThan(5_000);
+    });
+  });
+
+  describe("rate limits", () => {
+    it("should wait until X-RateLimit-Reset and retry", async () => {
+      const now = 1_700_000_000_000;
+      const rateLimited = new RetryPolicy({
+        sleep: async (ms) => {
+          sleeps.push(ms);
+        },
+        now: () => now,
+      });
+      responses = [
+        () =>
+          new Response("limited", {
+            status: 403,
+            headers: {
+              "X-RateLimit-Remaining": "0",
+              "X-RateLimit-Reset": String(now / 1000 + 5),
+            },
+          }),
+        () => new Response("ok"),
+      ];
+
+      const response = await rateLimited.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(200);
+      expect(sleeps).toEqual([5000]);
+    });
+
+    it("should throw RateLimitError when the reset is too far away", async () => {
+      const now = 1_700_000_000_000;
+      const rateLimited = new RetryPolicy({ maxWaitMs: 1000, now: () => now });
+      responses = [
+        () =>
+          new Response("limited", {
+            status: 403,
+            headers: {
+              "X-RateLimit-Remaining": "0",
+              "X-RateLimit-Reset": String(now / 1000 + 3600),
+            },
+          }),
+      ];
+
+      try {
+        await rateLimited.execute(baseUrl, () => fetch(baseUrl));
+        throw new Error("expected RateLimitError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect((error as RateLimitError).resetAt).toEqual(new Date(now + 3_600_000));
+      }
+    });
+
+    it("should cancel the response body before throwing RateLimitError", async () => {
+      let cancelled = false;
+      const body = new ReadableStream({
+        cancel() {
+          cancelled = true;
+        },
+      });
+      const limited = new Response(body, { status: 429, headers: { "Retry-After": "3600" } });
+      const rateLimited = new RetryPolicy({ maxWaitMs: 1000 });
+
+      await expect(rateLimited.execute(baseUrl, async () => limited)).rejects.toBeInstanceOf(
+        RateLimitError
+      );
+      expect(cancelled).toBe(true);
+    });
+
+    it("should treat 429 as rate limited", async () => {
+      responses = [
+        () => new Response("slow down", { status: 429, headers: { "Retry-After": "1" } }),
+        () => new Response("ok"),
+      ];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(200);
+      expect(sleeps).toEqual([1000]);
+    });
+
+    it("should treat a 403 with Retry-After as a secondary rate limit", async () => {
+      responses = [
+        () => new Response("abuse", { status: 403, headers: { "Retry-After": "2" } }),
+        () => new Response("ok"),
+      ];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(200);
+      expect(sleeps).toEqual([2000]);
+    });
+
+    it("should not treat a plain 403 as rate limited", async () => {
+      responses = [() => new Response("forbidden", { status: 403 })];
+
+      const response = await policy.execute(baseUrl, () => fetch(baseUrl));
+
+      expect(response.status).toBe(403);
+      expect(requestCount).toBe(1);
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    it("should cap delays at maxDelayMs", () => {
+      const capped = new RetryPolicy({ baseDelayMs: 1000, maxDelayMs: 4000, random: () => 1 });
+
+      expect(capped.getBackoffDelay(1)).toBe(1000);
+      expect(capped.getBackoffDelay(3)).toBe(4000);
+      expect(capped.getBackoffDelay(10)).toBe(4000);
+    });
+
+    it("should apply jitter within the upper half of the window", () => {
+      const jittered = new RetryPolicy({ baseDelayMs: 1000, random: () => 0 });
+
+      expect(jittered.getBackoffDelay(2)).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+export interface RetryPolicyOptions {
+  /** Total attempts, including the first request. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest Retry-After or rate-limit reset the policy will wait for. */
+  maxWaitMs?: number;
+  retryStatuses?: number[];
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    public url: string,
+    public resetAt: Date
+  ) {
+    super(`Rate limit exceeded for ${url} (resets at ${resetAt.toISOString()})`);
+    this.name = "RateLimitError";
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_MAX_WAIT_MS = 60_000;
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** A timer that is cleared, and rejects with the signal's reason, once `signal` aborts. */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Retries transient HTTP failures with exponential backoff and jitter.
+ * Honours Retry-After and GitHub's X-RateLimit-* headers.
+ */
+export class RetryPolicy {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxWaitMs: number;
+  private retryStatuses: number[];
+  private sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private random: () => number;
+  private now: () => number;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.retryStatuses = options.retryStatuses ?? DEFAULT_RETRY_STATUSES;
+    this.sleep = options.sleep ?? abortableSleep;
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Runs a request until it succeeds, fails permanently, or attempts run out.
+   * Non-retryable responses are returned as-is so callers keep their own error messages.
+   * Throws RateLimitError when a rate limit cannot be waited out.
+   * Stops retrying, including any wait between attempts, as soon as `signal` is aborted.
+   */
+  async execute(
+    url: string,
+    request: () => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+      const isLastAttempt = attempt >= this.maxAttempts;
+      let response: Response;
+
+      try {
+        response = await request();
+      } catch (error) {
+        if (isLastAttempt || signal?.aborted) {
+          throw error;
+        }
+        await this.wait(this.getBackoffDelay(attempt), signal);
+        continue;
+      }
+
+      if (this.isRateLimited(response)) {
+        const waitMs = this.getRateLimitDelay(response) ?? this.getBackoffDelay(attempt);
+        await response.body?.cancel();
+
+        if (isLastAttempt || waitMs > this.maxWaitMs) {
+          throw new RateLimitError(url, new Date(this.now() + waitMs));
+        }
+
+        await this.wait(waitMs, signal);
+        continue;
+      }
+
+      if (isLastAttempt || !this.retryStatuses.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfterMs = this.getRetryAfterDelay(response);
+      if (retryAfterMs !== null && retryAfterMs > this.maxWaitMs) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await this.wait(retryAfterMs ?? this.getBackoffDelay(attempt), signal);
+    }
+  }
+
+  /** Sleeps between attempts, rejecting as soon as `signal` is aborted. */
+  private async wait(ms: number, signal?: AbortSignal): Promise<void> {
+    if (!signal) {
+      return this.sleep(ms);
+    }
+
+    signal.throwIfAborted();
+    let onAbort!: () => void;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      await Promise.race([this.sleep(ms, signal), aborted]);
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Exponential backoff for the given 1-based attempt, with jitter
+   * spreading the delay over the upper half of the window.
+   */
+  getBackoffDelay(attempt: number): number {
+    const exponential = this.baseDelayMs * 2 ** (attempt - 1);
+    const capped = Math.min(this.maxDelayMs, exponential);
+    return Math.round(capped / 2 + (capped / 2) * this.random());
+  }
+
+  private isRateLimited(response: Response): boolean {
+    if (response.status === 429) {
+      return true;
+    }
+
+    // Primary limits report X-RateLimit-Remaining: 0; secondary limits send Retry-After
+    return (
+      response.status === 403 &&
+      (response.headers.get("X-RateLimit-Remaining") === "0" ||
+        response.headers.has("Retry-After"))
+    );
+  }
+
+  private getRateLimitDelay(response: Response): number | null {
+    const retryAfterMs = this.getRetryAfterDelay(response);
+    if (retryAfterMs !== null) {
+      return retryAfterMs;
+    }
+
+    const reset = response.headers.get("X-RateLimit-Reset");
+    if (reset && /^\d+$/.test(reset)) {
+      return Math.max(0, Number(reset) * 1000 - this.now());
+    }
+
+    return null;
+  }
+
+  private getRetryAfterDelay(response: Response): number | null {
+    const retryAfter = response.headers.get("Retry-After");
+    if (!retryAfter) {
+      return null;
+    }
+
+    // Either delta-seconds or an HTTP date
+    if (/^\d+$/.test(retryAfter.trim())) {
+      return Number(retryAfter.trim()) * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    if (Number.isNaN(date)) {
+      return null;
+    }
+
+    return Math.max(0, date - this.now());
+  }
+}
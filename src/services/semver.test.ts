@@ -0,0 +1,127 @@
+import { describe, it, expect } from "bun:test";
+import {
+  compareSemVer,
+  formatSemVer,
+  isPrerelease,
+  parseRange,
+  parseSemVer,
+  satisfies,
+  type SemVer,
+} from "./semver.ts";
+
+function version(tag: string): SemVer {
+  const parsed = parseSemVer(tag);
+  if (!parsed) {
+    throw new Error(`Not a semver tag: ${tag}`);
+  }
+  return parsed;
+}
+
+describe("semver", () => {
+  describe("parseSemVer", () => {
+    it("should parse tags with and without a v prefix", () => {
+      expect(parseSemVer("v1.0.40")).toEqual({ major: 1, minor: 0, patch: 40, prerelease: [] });
+      expect(parseSemVer("2.3.4")).toEqual({ major: 2, minor: 3, patch: 4, prerelease: [] });
+    });
+
+    it("should parse prerelease identifiers and ignore build metadata", () => {
+      expect(parseSemVer("v1.1.0-beta.2+build.7")?.prerelease).toEqual(["beta", "2"]);
+    });
+
+    it("should return null for non-semver tags", () => {
+      expect(parseSemVer("latest")).toBeNull();
+      expect(parseSemVer("v1.0")).toBeNull();
+    });
+  });
+
+  describe("formatSemVer", () => {
+    it("should print the version without a prefix", () => {
+      expect(formatSemVer(version("v1.1.0-rc.1"))).toBe("1.1.0-rc.1");
+    });
+  });
+
+  describe("isPrerelease", () => {
+    it("should detect prerelease versions", () => {
+      expect(isPrerelease(version("1.1.0-beta"))).toBe(true);
+      expect(isPrerelease(version("1.1.0"))).toBe(false);
+    });
+  });
+
+  describe("compareSemVer", () => {
+    it("should order versions numerically rather than lexically", () => {
+      expect(compareSemVer(version("1.0.9"), version("1.0.10"))).toBe(-1);
+      expect(compareSemVer(version("2.0.0"), version("1.99.99"))).toBe(1);
+      expect(compareSemVer(version("v1.0.0"), version("1.0.0"))).toBe(0);
+    });
+
+    it("should follow semver prerelease precedence", () => {
+      const ordered = [
+        "1.0.0-alpha",
+        "1.0.0-alpha.1",
+        "1.0.0-alpha.beta",
+        "1.0.0-beta",
+        "1.0.0-beta.2",
+        "1.0.0-beta.11",
+        "1.0.0-rc.1",
+        "1.0.0",
+      ].map(version);
+
+      const shuffled = [...ordered].reverse().sort(compareSemVer);
+
+      expect(shuffled.map(formatSemVer)).toEqual(ordered.map(formatSemVer));
+    });
+  });
+
+  describe("satisfies", () => {
+    it("should require every comparator in a range", () => {
+      expect(satisfies(version("1.0.30"), ">=1.0.30 <1.1")).toBe(true);
+      expect(satisfies(version("1.0.99"), ">=1.0.30 <1.1")).toBe(true);
+      expect(satisfies(version("1.0.29"), ">=1.0.30 <1.1")).toBe(false);
+      expect(satisfies(version("1.1.0"), ">=1.0.30 <1.1")).toBe(false);
+    });
+
+    it("should accept any alternative separated by ||", () => {
+      expect(satisfies(version("2.0.1"), "<1.0.0 || >=2.0.0")).toBe(true);
+      expect(satisfies(version("1.5.0"), "<1.0.0 || >=2.0.0")).toBe(false);
+    });
+
+    it("should treat partial versions as covering every version they prefix", () => {
+      expect(satisfies(version("1.0.7"), "1.0")).toBe(true);
+      expect(satisfies(version("1.1.0"), "1.0")).toBe(false);
+      expect(satisfies(version("1.0.7"), "<=1.0")).toBe(true);
+      expect(satisfies(version("1.0.7"), ">1.0")).toBe(false);
+      expect(satisfies(version("1.1.0"), ">1.0")).toBe(true);
+    });
+
+    it("should support caret and tilde ranges", () => {
+      expect(satisfies(version("1.9.0"), "^1.0.4")).toBe(true);
+      expect(satisfies(version("2.0.0"), "^1.0.4")).toBe(false);
+      expect(satisfies(version("0.2.5"), "^0.2.3")).toBe(true);
+      expect(satisfies(version("0.3.0"), "^0.2.3")).toBe(false);
+      expect(satisfies(version("1.0.9"), "~1.0.4")).toBe(true);
+      expect(satisfies(version("1.1.0"), "~1.0.4")).toBe(false);
+    });
+
+    it("should allow whitespace after operators", () => {
+      expect(satisfies(version("1.0.40"), ">= 1.0.30 < 1.1")).toBe(true);
+    });
+
+    it("should compare prereleases by precedence", () => {
+      expect(satisfies(version("1.1.0-beta"), ">=1.0.0 <1.1.0")).toBe(true);
+      expect(satisfies(version("1.1.0-beta"), ">=1.1.0")).toBe(false);
+    });
+
+    it("should accept a parsed range", () => {
+      const range = parseRange(">=1.0.30");
+
+      expect(satisfies(version("1.0.31"), range)).toBe(true);
+    });
+  });
+
+  describe("parseRange", () => {
+    it("should reject malformed ranges", () => {
+      expect(() => parseRange(">=latest")).toThrow("Invalid version range: >=latest");
+      expect(() => parseRange("")).toThrow("Invalid version range: ");
+    });
+  });
+});
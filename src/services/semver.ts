@@ -0,0 +1,209 @@
+/** A parsed semantic version; plain data so it survives the JSON cache. */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated prerelease identifiers, e.g. `["beta", "2"]`; empty for releases. */
+  prerelease: string[];
+}
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+/** Alternatives joined by `||`; every comparator within one alternative must match. */
+export type VersionRange = Comparator[][];
+
+// v1.2.3 | 1.2.3-beta.1 | 1.2.3+build
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Range operands may omit minor and patch, e.g. `>=1` or `<1.1`
+const PARTIAL = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/;
+
+const COMPARATOR = /^(<=|>=|<|>|=|\^|~)?\s*(\S+)$/;
+
+/**
+ * Parses a release tag such as `v1.0.40`; returns null for non-semver tags.
+ */
+export function parseSemVer(tag: string): SemVer | null {
+  const match = tag.trim().match(VERSION);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+export function formatSemVer(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join(".")}` : core;
+}
+
+export function isPrerelease(version: SemVer): boolean {
+  return version.prerelease.length > 0;
+}
+
+/**
+ * Orders versions by semver precedence: negative if `a` is older than `b`.
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return Math.sign(core);
+  }
+
+  // A prerelease sorts before the release it precedes
+  if (!isPrerelease(a) || !isPrerelease(b)) {
+    return Number(isPrerelease(b)) - Number(isPrerelease(a));
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const result = compareIdentifier(a.prerelease[i], b.prerelease[i]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Parses a range such as `>=1.0.30 <1.1`, `^1.0.0`, `~1.0.4` or `1.0`.
+ * Space-separated comparators must all match; `||` separates alternatives.
+ * Prereleases are compared by precedence like any other version.
+ */
+export function parseRange(range: string): VersionRange {
+  const alternatives = range.split("||").map((part) => part.trim());
+
+  return alternatives.map((alternative) => {
+    // Allow `>= 1.0.0` as well as `>=1.0.0`
+    const tokens = alternative.replace(/(<=|>=|<|>|=|\^|~)\s+/g, "$1").split(/\s+/);
+    const comparators = tokens
+      .filter(Boolean)
+      .flatMap((token) => parseComparator(token, range));
+
+    if (comparators.length === 0) {
+      throw new Error(`Invalid version range: ${range}`);
+    }
+    return comparators;
+  });
+}
+
+/**
+ * Tests a version against a range string or a range from parseRange.
+ */
+export function satisfies(version: SemVer, range: string | VersionRange): boolean {
+  const alternatives = typeof range === "string" ? parseRange(range) : range;
+
+  return alternatives.some((comparators) =>
+    comparators.every(({ operator, version: bound }) => {
+      const result = compareSemVer(version, bound);
+      switch (operator) {
+        case "<":
+          return result < 0;
+        case "<=":
+          return result <= 0;
+        case ">":
+          return result > 0;
+        case ">=":
+          return result >= 0;
+        case "=":
+          return result === 0;
+      }
+    })
+  );
+}
+
+function parseComparator(token: string, range: string): Comparator[] {
+  const match = token.match(COMPARATOR);
+  const partial = match?.[2]?.match(PARTIAL);
+  if (!match || !partial) {
+    throw new Error(`Invalid version range: ${range}`);
+  }
+
+  const operator = match[1] as Operator | "^" | "~" | undefined;
+  const [major, minor, patch] = [partial[1], partial[2], partial[3]].map((part) =>
+    part === undefined ? undefined : Number(part)
+  );
+  const lower: SemVer = {
+    major: major!,
+    minor: minor ?? 0,
+    patch: patch ?? 0,
+    prerelease: partial[4] ? partial[4].split(".") : [],
+  };
+
+  // Smallest version above everything the operand covers, e.g. `1.0` → `1.1.0-0`
+  const next = (part: "major" | "minor" | "patch"): SemVer => ({
+    major: part === "major" ? lower.major + 1 : lower.major,
+    minor: part === "minor" ? lower.minor + 1 : part === "major" ? 0 : lower.minor,
+    patch: part === "patch" ? lower.patch + 1 : 0,
+    prerelease: ["0"],
+  });
+  const precision = patch !== undefined ? "patch" : minor !== undefined ? "minor" : "major";
+
+  // Full versions compare directly; partial ones cover every version they prefix
+  if (precision === "patch" && operator !== "^" && operator !== "~") {
+    return [{ operator: operator ?? "=", version: lower }];
+  }
+
+  switch (operator) {
+    case "<":
+    case ">=":
+      return [{ operator, version: lower }];
+    case ">":
+      // `>1.0` means above every 1.0.x
+      return [{ operator: ">=", version: next(precision) }];
+    case "<=":
+      return [{ operator: "<", version: next(precision) }];
+    case "^": {
+      // Up to the next change in the left-most non-zero part
+      const upper =
+        lower.major > 0 || precision === "major"
+          ? "major"
+          : lower.minor > 0 || precision === "minor"
+            ? "minor"
+            : "patch";
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: next(upper) },
+      ];
+    }
+    case "~":
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: next(precision === "major" ? "major" : "minor") },
+      ];
+    default:
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: next(precision) },
+      ];
+  }
+}
+
+function compareIdentifier(a: string | undefined, b: string | undefined): number {
+  // A longer prerelease has higher precedence when all shared identifiers match
+  if (a === undefined || b === undefined) {
+    return a === undefined ? (b === undefined ? 0 : -1) : 1;
+  }
+
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Math.sign(Number(a) - Number(b));
+  }
+  // Numeric identifiers sort before alphanumeric ones
+  if (aNumeric !== bNumeric) {
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { SnapshotStore } from "./snapshot-store.ts";
+import { rm, readFile, exists, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("SnapshotStore", () => {
+  const testCacheDir = "/tmp/phoenixlab-snapshot-store-test";
+
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  describe("save", () => {
+    it("should write a timestamped copy of the content", async () => {
+      const store = new SnapshotStore(testCacheDir);
+
+      const snapshot = await store.save("docs", '{"a":1}', new Date("2024-01-15T12:00:00.000Z"));
+
+      expect(snapshot!.id).toBe("2024-01-15T12-00-00-000Z");
+      expect(snapshot!.path).toBe(
+        join(testCacheDir, "snapshots", "docs", "2024-01-15T12-00-00-000Z.json")
+      );
+      expect(await readFile(snapshot!.path, "utf-8")).toBe('{"a":1}');
+    });
+
+    it("should not write snapshots when maxCount is 0", async () => {
+      const store = new SnapshotStore(testCacheDir, { maxCount: 0 });
+
+      expect(await store.save("docs", "{}")).toBeNull();
+      expect(await exists(join(testCacheDir, "snapshots"))).toBe(false);
+    });
+
+    it("should reject an invalid retention policy", () => {
+      expect(() => new SnapshotStore(testCacheDir, { maxCount: NaN })).toThrow(
+        "maxCount must be a non-negative integer"
+      );
+      expect(() => new SnapshotStore(testCacheDir, { maxCount: -1 })).toThrow("maxCount");
+      expect(() => new SnapshotStore(testCacheDir, { maxAgeDays: -1 })).toThrow("maxAgeDays");
+    });
+  });
+
+  describe("retention", () => {
+    it("should prune by the last policy given when none is given", async () => {
+      const keepLong = new SnapshotStore(testCacheDir, { maxAgeDays: 1000 });
+      await keepLong.save("docs", "{}", daysAgo(400));
+      await keepLong.save("docs", "{}", daysAgo(1));
+
+      expect(await new SnapshotStore(testCacheDir).prune("docs", now)).toEqual([]);
+    });
+
+    it("should delete every snapshot once maxCount is 0", async () => {
+      const store = new SnapshotStore(testCacheDir);
+      await store.save("docs", "{}", daysAgo(2));
+      await store.save("docs", "{}", daysAgo(1));
+
+      expect(await new SnapshotStore(testCacheDir, { maxCount: 0 }).save("docs", "{}")).toBeNull();
+
+      expect(await store.list("docs")).toEqual([]);
+      expect(await new SnapshotStore(testCacheDir).prune("docs", now)).toEqual([]);
+    });
+
+    it("should keep the default maximum age when only maxCount is given", async () => {
+      const store = new SnapshotStore(testCacheDir, { maxCount: 5 });
+      await store.save("docs", "{}", daysAgo(400));
+      await store.save("docs", "{}", daysAgo(1));
+
+      expect((await store.list("docs")).map((snapshot) => snapshot.takenAt)).toEqual([
+        daysAgo(1),
+      ]);
+      const saved = await readFile(join(testCacheDir, "snapshots", "retention.json"), "utf-8");
+      expect(JSON.parse(saved)).toEqual({ maxCount: 5, maxAgeDays: 365 });
+    });
+  });
+
+  describe("list", () => {
+    it("should list snapshots newest first with their times", async () => {
+      const store = new SnapshotStore(testCacheDir);
+      await store.save("releases", "{}", daysAgo(2));
+      await store.save("releases", "{}", daysAgo(1));
+      await store.save("docs", "{}", daysAgo(3));
+
+      const snapshots = await store.list("releases");
+
+      expect(snapshots.map((snapshot) => snapshot.takenAt)).toEqual([daysAgo(1), daysAgo(2)]);
+      expect(snapshots[0]!.bytes).toBe(2);
+    });
+
+    it("should ignore files that are not snapshots", async () => {
+      const store = new SnapshotStore(testCacheDir);
+      const snapshot = await store.save("docs", "{}", daysAgo(1));
+      await writeFile(`${snapshot!.path}.corrupt-2024-06-01`, "");
+      await writeFile(join(testCacheDir, "snapshots", "docs", "notes.json"), "");
+
+      expect(await store.list("docs")).toHaveLength(1);
+    });
+
+    it("should return an empty list when there are no snapshots", async () => {
+      expect(await new SnapshotStore(testCacheDir).list("docs")).toEqual([]);
+    });
+  });
+
+  describe("prune", () => {
+    it("should keep at most maxCount snapshots", async () => {
+      const store = new SnapshotStore(testCacheDir, { maxCount: 2 });
+      for (const days of [4, 3, 2, 1]) {
+        await store.save("docs", "{}", daysAgo(days));
+      }
+
+      const snapshots = await store.list("docs");
+
+      expect(snapshots.map((snapshot) => snapshot.takenAt)).toEqual([daysAgo(1), daysAgo(2)]);
+    });
+
+    it("should delete snapshots older than maxAgeDays but keep the newest", async () => {
+      const unlimited = new SnapshotStore(testCacheDir, {});
+      await unlimited.save("docs", "{}", daysAgo(30));
+      await unlimited.save("docs", "{}", daysAgo(20));
+      const store = new SnapshotStore(testCacheDir, { maxAgeDays: 7 });
+
+      const pruned = await store.prune("docs", now);
+
+      expect(pruned.map((snapshot) => snapshot.takenAt)).toEqual([daysAgo(30)]);
+      expect((await store.list("docs")).map((snapshot) => snapshot.takenAt)).toEqual([
+        daysAgo(20),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { mkdir, readdir, readFile, rm, stat, exists } from "node:fs/promises";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.ts";
+
+export type SnapshotKind = "docs" | "releases";
+
+export const SNAPSHOT_KINDS: SnapshotKind[] = ["docs", "releases"];
+
+export interface SnapshotInfo {
+  kind: SnapshotKind;
+  /** Timestamp-based id, e.g. `2024-01-15T12-00-00-000Z`. */
+  id: string;
+  takenAt: Date;
+  path: string;
+  bytes: number;
+}
+
+export interface RetentionPolicy {
+  /** Snapshots kept per kind; 0 disables snapshots and deletes existing ones. */
+  maxCount?: number;
+  /** Snapshots older than this are pruned; the newest is always kept. */
+  maxAgeDays?: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxCount: 30, maxAgeDays: 365 };
+
+export const SNAPSHOTS_DIR = "snapshots";
+// The policy last given explicitly, so later runs and `cache.ts gc` keep to it
+const RETENTION_FILE = "retention.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function snapshotId(takenAt: Date): string {
+  return takenAt.toISOString().replace(/[:.]/g, "-");
+}
+
+/** `2024-01-15T12-00-00-000Z` → the Date it was taken at, or null. */
+function parseSnapshotId(id: string): Date | null {
+  const iso = id.replace(/T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z$/, "T$1:$2:$3.$4Z");
+  const takenAt = new Date(iso);
+  return Number.isNaN(takenAt.getTime()) ? null : takenAt;
+}
+
+/** Throws when `retention` has a negative, fractional or non-numeric limit. */
+function validateRetention({ maxCount, maxAgeDays }: RetentionPolicy): void {
+  if (maxCount !== undefined && !(Number.isInteger(maxCount) && maxCount >= 0)) {
+    throw new Error(`Snapshot maxCount must be a non-negative integer, got ${maxCount}`);
+  }
+  if (maxAgeDays !== undefined && !(maxAgeDays >= 0)) {
+    throw new Error(`Snapshot maxAgeDays must be a non-negative number, got ${maxAgeDays}`);
+  }
+}
+
+/**
+ * Keeps timestamped copies of cache files under `snapshots/<kind>/`, so
+ * older versions of the docs and releases can be listed, loaded and diffed.
+ *
+ * A retention policy given here is merged over DEFAULT_RETENTION and saved
+ * with the snapshots; without one, the last saved policy applies.
+ */
+export class SnapshotStore {
+  private retention?: RetentionPolicy;
+
+  constructor(
+    private cacheDir: string,
+    retention?: RetentionPolicy
+  ) {
+    if (retention) {
+      validateRetention(retention);
+      this.retention = { ...DEFAULT_RETENTION, ...retention };
+    }
+  }
+
+  /**
+   * Saves `content` as a new snapshot and prunes by the retention policy.
+   * Returns null when snapshots are disabled.
+   */
+  async save(
+    kind: SnapshotKind,
+    content: string,
+    takenAt: Date = new Date()
+  ): Promise<SnapshotInfo | null> {
+    if ((await this.policy()).maxCount === 0) {
+      await this.prune(kind);
+      return null;
+    }
+
+    const dir = join(this.cacheDir, SNAPSHOTS_DIR, kind);
+    await mkdir(dir, { recursive: true });
+
+    const id = snapshotId(takenAt);
+    const path = join(dir, `${id}.json`);
+    await writeFileAtomic(path, content);
+    await this.prune(kind);
+
+    return { kind, id, takenAt, path, bytes: Buffer.byteLength(content) };
+  }
+
+  /** Snapshots of one kind, newest first. */
+  async list(kind: SnapshotKind): Promise<SnapshotInfo[]> {
+    const dir = join(this.cacheDir, SNAPSHOTS_DIR, kind);
+    if (!(await exists(dir))) {
+      return [];
+    }
+
+    const snapshots: SnapshotInfo[] = [];
+    for (const name of await readdir(dir)) {
+      const id = name.replace(/\.json$/, "");
+      const takenAt = parseSnapshotId(id);
+      if (!name.endsWith(".json") || !takenAt) {
+        continue;
+      }
+
+      const path = join(dir, name);
+      snapshots.push({ kind, id, takenAt, path, bytes: (await stat(path)).size });
+    }
+
+    return snapshots.sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+  }
+
+  async get(kind: SnapshotKind, id: string): Promise<SnapshotInfo | null> {
+    const snapshots = await this.list(kind);
+    return snapshots.find((snapshot) => snapshot.id === id) ?? null;
+  }
+
+  /**
+   * Deletes snapshots beyond `maxCount` or older than `maxAgeDays`; the
+   * newest is kept unless `maxCount` is 0. Returns the deleted snapshots.
+   */
+  async prune(kind: SnapshotKind, now: Date = new Date()): Promise<SnapshotInfo[]> {
+    // Saved alongside existing snapshots, so a later gc keeps to it
+    const root = join(this.cacheDir, SNAPSHOTS_DIR);
+    if (this.retention && (await exists(root))) {
+      await writeFileAtomic(join(root, RETENTION_FILE), JSON.stringify(this.retention));
+    }
+
+    const { maxCount, maxAgeDays } = await this.policy();
+    const snapshots = await this.list(kind);
+
+    const expired = snapshots.filter((snapshot, i) => {
+      if (maxCount !== undefined && i >= maxCount) {
+        return true;
+      }
+      return (
+        i > 0 &&
+        maxAgeDays !== undefined &&
+        now.getTime() - snapshot.takenAt.getTime() > maxAgeDays * DAY_MS
+      );
+    });
+
+    for (const snapshot of expired) {
+      await rm(snapshot.path, { force: true });
+    }
+
+    return expired;
+  }
+
+  /** The policy given to the constructor, else the saved one, else the default. */
+  private async policy(): Promise<RetentionPolicy> {
+    if (this.retention) {
+      return this.retention;
+    }
+
+    try {
+      const saved = JSON.parse(
+        await readFile(join(this.cacheDir, SNAPSHOTS_DIR, RETENTION_FILE), "utf-8")
+      ) as RetentionPolicy;
+      validateRetention(saved);
+      return { ...DEFAULT_RETENTION, ...saved };
+    } catch {
+      // Missing or unreadable: fall back to the default
+      return DEFAULT_RETENTION;
+    }
+  }
+}